@@ -0,0 +1,50 @@
+import { bench, describe } from 'vitest';
+
+import { Permission, PermissionIndex } from '../src/permissions';
+import { RBACEngine } from '../src/engine/RBACEngine';
+
+const GRANTS = 5000;
+
+const patterns = Array.from({ length: GRANTS }, (_, i) => {
+  const resource = `resource${i % 500}`;
+  const action = ['read', 'write', 'delete', '*'][i % 4];
+  return `tenant${i % 10}:${resource}:${action}`;
+});
+
+const index = new PermissionIndex<string>();
+patterns.forEach((pattern) => index.add(pattern, pattern));
+
+const engine = new RBACEngine();
+engine.addRole({ name: 'tenant', level: 10, permissions: patterns });
+
+const subject = { id: '1', roles: ['tenant'] };
+const hit = 'tenant9:resource499:delete';
+const miss = 'tenant9:resource499:archive:all';
+
+describe(`wildcard lookup over ${GRANTS} grants`, () => {
+  bench('linear Permission.match scan (hit)', () => {
+    patterns.some((pattern) => Permission.match(pattern, hit));
+  });
+
+  bench('PermissionIndex.match (hit)', () => {
+    index.match(hit);
+  });
+
+  bench('linear Permission.match scan (miss)', () => {
+    patterns.some((pattern) => Permission.match(pattern, miss));
+  });
+
+  bench('PermissionIndex.match (miss)', () => {
+    index.match(miss);
+  });
+});
+
+describe(`RBACEngine.can over ${GRANTS} grants`, () => {
+  bench('can (indexed)', async () => {
+    await engine.can(subject, hit);
+  });
+
+  bench('explain (linear trace)', async () => {
+    await engine.explain(subject, hit);
+  });
+});
@@ -0,0 +1,189 @@
+import { StorageAdapter } from './types';
+
+type Matchers = {
+  toEqual(expected: unknown): void;
+};
+
+/**
+ * The subset of a test framework the conformance suite needs. Vitest and Jest
+ * globals both fit.
+ */
+export type TestApi = {
+  describe: (name: string, body: () => void) => void;
+  it: (name: string, body: () => Promise<void>) => void;
+  expect: (actual: unknown) => Matchers;
+};
+
+const byName = <T extends { name: string }>(items: T[]): T[] => {
+  return [...items].sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * Registers the behaviour every `StorageAdapter` must provide. `create` is
+ * called once per test and must return an empty adapter.
+ *
+ * ```ts
+ * import { describe, it, expect } from 'vitest';
+ * describeStorageAdapter('MyAdapter', () => new MyAdapter(), { describe, it, expect });
+ * ```
+ */
+export const describeStorageAdapter = (
+  name: string,
+  create: () => StorageAdapter | Promise<StorageAdapter>,
+  { describe, it, expect }: TestApi
+): void => {
+  describe(`${name} (StorageAdapter conformance)`, () => {
+    it('should start empty', async () => {
+      const adapter = await create();
+
+      expect(await adapter.listRoles()).toEqual([]);
+      expect(await adapter.listPermissions()).toEqual([]);
+      expect(await adapter.getRole('viewer')).toEqual(undefined);
+      expect(await adapter.getSubject('alice')).toEqual(undefined);
+    });
+
+    it('should save, read and list roles', async () => {
+      const adapter = await create();
+      const viewer = { name: 'viewer', level: 10, permissions: ['post:read'] };
+      const editor = {
+        name: 'editor',
+        level: 50,
+        permissions: ['post:*'],
+        inherits: ['viewer'],
+        denies: ['post:delete']
+      };
+
+      await adapter.saveRole(viewer);
+      await adapter.saveRole(editor);
+
+      expect(await adapter.getRole('editor')).toEqual(editor);
+      expect(byName(await adapter.listRoles())).toEqual([editor, viewer]);
+    });
+
+    it('should replace roles saved under an existing name', async () => {
+      const adapter = await create();
+
+      await adapter.saveRole({ name: 'viewer', level: 10, permissions: ['post:read'] });
+      await adapter.saveRole({ name: 'viewer', level: 20, permissions: ['page:read'] });
+
+      expect(await adapter.listRoles()).toEqual([
+        { name: 'viewer', level: 20, permissions: ['page:read'] }
+      ]);
+    });
+
+    it('should delete roles', async () => {
+      const adapter = await create();
+
+      await adapter.saveRole({ name: 'viewer', level: 10, permissions: [] });
+      await adapter.deleteRole('viewer');
+      await adapter.deleteRole('missing');
+
+      expect(await adapter.getRole('viewer')).toEqual(undefined);
+      expect(await adapter.listRoles()).toEqual([]);
+    });
+
+    it('should fetch inherited role graphs when supported', async () => {
+      const adapter = await create();
+      if (!adapter.getRoleGraph) return;
+
+      const roles = [
+        { name: 'viewer', level: 10, permissions: ['post:read'] },
+        { name: 'author', level: 20, permissions: ['post:create'], inherits: ['viewer'] },
+        {
+          name: 'editor',
+          level: 50,
+          permissions: ['post:edit'],
+          inherits: ['author', 'viewer', 'missing']
+        },
+        { name: 'admin', level: 100, permissions: ['**'] }
+      ];
+
+      for (const role of roles) {
+        await adapter.saveRole(role);
+      }
+
+      expect(byName(await adapter.getRoleGraph(['editor', 'unknown']))).toEqual([
+        roles[1],
+        roles[2],
+        roles[0]
+      ]);
+      expect(await adapter.getRoleGraph([])).toEqual([]);
+    });
+
+    it('should save, read and delete subjects with scoped assignments', async () => {
+      const adapter = await create();
+      const alice = {
+        id: 'alice',
+        roles: ['viewer', { role: 'admin', scope: 'org:A' }],
+        permissions: ['post:1:edit'],
+        attributes: { department: 'sales' }
+      };
+
+      await adapter.saveSubject(alice);
+      expect(await adapter.getSubject('alice')).toEqual(alice);
+
+      await adapter.saveSubject({ id: 'alice', roles: [] });
+      expect(await adapter.getSubject('alice')).toEqual({ id: 'alice', roles: [] });
+
+      await adapter.deleteSubject('alice');
+      expect(await adapter.getSubject('alice')).toEqual(undefined);
+    });
+
+    it('should keep the time windows of assignments', async () => {
+      const adapter = await create();
+      const carol = {
+        id: 'carol',
+        roles: [
+          { role: 'oncall', validFrom: '2026-03-01T00:00:00.000Z' },
+          {
+            role: 'admin',
+            scope: 'org:A',
+            validFrom: '2026-03-01T00:00:00.000Z',
+            validUntil: '2026-03-08T00:00:00.000Z'
+          }
+        ],
+        permissions: [
+          'report:read',
+          { permission: 'report:export', validUntil: '2026-04-01' }
+        ]
+      };
+
+      await adapter.saveSubject(carol);
+      expect(await adapter.getSubject('carol')).toEqual(carol);
+    });
+
+    it('should save, list and delete catalog permissions', async () => {
+      const adapter = await create();
+
+      await adapter.savePermission({ name: 'post:read', description: 'Read posts' });
+      await adapter.savePermission({ name: 'post:edit' });
+      await adapter.savePermission({ name: 'post:read', description: 'View posts' });
+
+      expect(byName(await adapter.listPermissions())).toEqual([
+        { name: 'post:edit' },
+        { name: 'post:read', description: 'View posts' }
+      ]);
+
+      await adapter.deletePermission('post:edit');
+      expect(await adapter.listPermissions()).toEqual([
+        { name: 'post:read', description: 'View posts' }
+      ]);
+    });
+
+    it('should not share objects with callers', async () => {
+      const adapter = await create();
+      const role = { name: 'viewer', level: 10, permissions: ['post:read'] };
+
+      await adapter.saveRole(role);
+      role.permissions.push('post:delete');
+      (await adapter.getRole('viewer'))?.permissions.push('post:edit');
+      (await adapter.listRoles())[0].permissions.push('post:publish');
+
+      expect(await adapter.getRole('viewer')).toEqual({
+        name: 'viewer',
+        level: 10,
+        permissions: ['post:read']
+      });
+    });
+  });
+};
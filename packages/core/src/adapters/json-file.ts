@@ -0,0 +1,87 @@
+import { readFile, rename, writeFile } from 'node:fs/promises';
+
+import { Permission, Role, Subject } from '../types';
+
+import { MemoryAdapter } from './memory';
+import { StorageAdapter, StorageData } from './types';
+
+/**
+ * Stores everything in a single JSON file. The file is read once, served from
+ * memory afterwards and rewritten atomically after every change; writes are
+ * applied in call order. Intended for small deployments and fixtures, not for
+ * several processes sharing one file.
+ */
+export class JsonFileAdapter implements StorageAdapter {
+  private data?: Promise<MemoryAdapter>;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private path: string) {}
+
+  getRole = async (name: string): Promise<Role | undefined> => {
+    return (await this.load()).getRole(name);
+  };
+
+  listRoles = async (): Promise<Role[]> => {
+    return (await this.load()).listRoles();
+  };
+
+  saveRole = (role: Role): Promise<void> => {
+    return this.write((data) => data.saveRole(role));
+  };
+
+  deleteRole = (name: string): Promise<void> => {
+    return this.write((data) => data.deleteRole(name));
+  };
+
+  getSubject = async (id: string): Promise<Subject | undefined> => {
+    return (await this.load()).getSubject(id);
+  };
+
+  saveSubject = (subject: Subject): Promise<void> => {
+    return this.write((data) => data.saveSubject(subject));
+  };
+
+  deleteSubject = (id: string): Promise<void> => {
+    return this.write((data) => data.deleteSubject(id));
+  };
+
+  listPermissions = async (): Promise<Permission[]> => {
+    return (await this.load()).listPermissions();
+  };
+
+  savePermission = (permission: Permission): Promise<void> => {
+    return this.write((data) => data.savePermission(permission));
+  };
+
+  deletePermission = (name: string): Promise<void> => {
+    return this.write((data) => data.deletePermission(name));
+  };
+
+  private load = (): Promise<MemoryAdapter> => {
+    this.data ??= readFile(this.path, 'utf8').then(
+      (source) => new MemoryAdapter(JSON.parse(source) as Partial<StorageData>),
+      (error: NodeJS.ErrnoException) => {
+        if (error.code === 'ENOENT') return new MemoryAdapter();
+        this.data = undefined;
+        throw error;
+      }
+    );
+
+    return this.data;
+  };
+
+  private write = (change: (data: MemoryAdapter) => Promise<void>): Promise<void> => {
+    const write = this.writes.then(async () => {
+      const data = await this.load();
+      await change(data);
+
+      const temporary = `${this.path}.${process.pid}.tmp`;
+      await writeFile(temporary, `${JSON.stringify(data.toData(), null, 2)}\n`);
+      await rename(temporary, this.path);
+    });
+
+    this.writes = write.catch(() => undefined);
+
+    return write;
+  };
+}
@@ -0,0 +1,73 @@
+import { Permission, Role, Subject } from '../types';
+
+import { StorageAdapter, StorageData } from './types';
+
+/**
+ * Keeps everything in process memory. Useful for tests and as a reference for
+ * adapter authors.
+ */
+export class MemoryAdapter implements StorageAdapter {
+  private roles = new Map<string, Role>();
+  private subjects = new Map<string, Subject>();
+  private permissions = new Map<string, Permission>();
+
+  constructor(data: Partial<StorageData> = {}) {
+    data.roles?.forEach((role) => this.roles.set(role.name, structuredClone(role)));
+    data.subjects?.forEach((subject) =>
+      this.subjects.set(subject.id, structuredClone(subject))
+    );
+    data.permissions?.forEach((permission) =>
+      this.permissions.set(permission.name, structuredClone(permission))
+    );
+  }
+
+  getRole = async (name: string): Promise<Role | undefined> => {
+    const role = this.roles.get(name);
+    return role && structuredClone(role);
+  };
+
+  listRoles = async (): Promise<Role[]> => {
+    return structuredClone([...this.roles.values()]);
+  };
+
+  saveRole = async (role: Role): Promise<void> => {
+    this.roles.set(role.name, structuredClone(role));
+  };
+
+  deleteRole = async (name: string): Promise<void> => {
+    this.roles.delete(name);
+  };
+
+  getSubject = async (id: string): Promise<Subject | undefined> => {
+    const subject = this.subjects.get(id);
+    return subject && structuredClone(subject);
+  };
+
+  saveSubject = async (subject: Subject): Promise<void> => {
+    this.subjects.set(subject.id, structuredClone(subject));
+  };
+
+  deleteSubject = async (id: string): Promise<void> => {
+    this.subjects.delete(id);
+  };
+
+  listPermissions = async (): Promise<Permission[]> => {
+    return structuredClone([...this.permissions.values()]);
+  };
+
+  savePermission = async (permission: Permission): Promise<void> => {
+    this.permissions.set(permission.name, structuredClone(permission));
+  };
+
+  deletePermission = async (name: string): Promise<void> => {
+    this.permissions.delete(name);
+  };
+
+  toData = (): StorageData => {
+    return structuredClone({
+      roles: [...this.roles.values()],
+      subjects: [...this.subjects.values()],
+      permissions: [...this.permissions.values()]
+    });
+  };
+}
@@ -0,0 +1,32 @@
+import { Permission, Role, Subject } from '../types';
+
+/**
+ * Persistence for roles, subjects with their role assignments and the
+ * permission catalog. Every method returns copies, so callers may mutate the
+ * results without affecting stored data.
+ */
+export type StorageAdapter = {
+  getRole(name: string): Promise<Role | undefined>;
+  listRoles(): Promise<Role[]>;
+  saveRole(role: Role): Promise<void>;
+  deleteRole(name: string): Promise<void>;
+  /**
+   * Optionally fetches the named roles together with every role they inherit,
+   * in one round trip. Without it the engine walks the graph with `getRole`.
+   */
+  getRoleGraph?(names: string[]): Promise<Role[]>;
+
+  getSubject(id: string): Promise<Subject | undefined>;
+  saveSubject(subject: Subject): Promise<void>;
+  deleteSubject(id: string): Promise<void>;
+
+  listPermissions(): Promise<Permission[]>;
+  savePermission(permission: Permission): Promise<void>;
+  deletePermission(name: string): Promise<void>;
+};
+
+export type StorageData = {
+  roles: Role[];
+  subjects: Subject[];
+  permissions: Permission[];
+};
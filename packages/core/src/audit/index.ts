@@ -0,0 +1,82 @@
+import { Resource } from '../types';
+import { AuthorizationContext } from '../policy';
+import { RuleSource } from '../engine/trace';
+
+export type AuditRule = {
+  pattern: string;
+  source: RuleSource;
+};
+
+export type AuditRecord = {
+  /** ISO 8601 time the decision was made. */
+  timestamp: string;
+  subjectId: string;
+  permission: string;
+  allowed: boolean;
+  reason?: string;
+  /** The grant that matched, when the subject had one. */
+  grant?: AuditRule;
+  /** The deny rule that refused the permission. */
+  deny?: AuditRule;
+  /** Every policy evaluated for the decision, in order; empty when none applied. */
+  policies: string[];
+  /** The policy that refused the permission. */
+  policy?: string;
+  /** Id of the break-glass elevation the grant came from. */
+  elevation?: string;
+  resource?: Resource;
+  scope?: string;
+  context: AuthorizationContext;
+  /** Milliseconds spent deciding, including role loading. */
+  latency: number;
+  cached: boolean;
+};
+
+export type AuditSink = {
+  write(record: AuditRecord): void | Promise<void>;
+};
+
+export type AuditOptions = {
+  sink: AuditSink;
+  /**
+   * Share of decisions to record, from 0 to 1, or a function choosing records,
+   * e.g. `(record) => !record.allowed || Math.random() < 0.01`. Defaults to 1.
+   */
+  sample?: number | ((record: AuditRecord) => boolean);
+  /** Replaces the default redaction of the context before it is recorded. */
+  redact?: (context: AuthorizationContext) => AuthorizationContext;
+  /** Receives sink failures, which never affect the decision. */
+  onError?: (error: unknown) => void;
+};
+
+export const REDACTED = '[REDACTED]';
+
+const SENSITIVE_KEY =
+  /pass(word)?|secret|token|authorization|cookie|session|api[-_]?key|credential/i;
+
+const redactValue = (value: unknown, depth: number): unknown => {
+  if (Array.isArray(value)) {
+    return depth > 8 ? REDACTED : value.map((item) => redactValue(item, depth + 1));
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    if (depth > 8) return REDACTED;
+
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        SENSITIVE_KEY.test(key) ? REDACTED : redactValue(item, depth + 1)
+      ])
+    );
+  }
+
+  return typeof value === 'function' ? undefined : value;
+};
+
+/**
+ * Copies a context with the values of credential-like keys (`password`,
+ * `token`, `authorization`, `apiKey`, ...) replaced at any depth.
+ */
+export const redactContext = (context: AuthorizationContext): AuthorizationContext => {
+  return redactValue(context, 0) as AuthorizationContext;
+};
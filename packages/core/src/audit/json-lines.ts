@@ -0,0 +1,27 @@
+import { appendFile } from 'node:fs/promises';
+
+import { AuditRecord, AuditSink } from './index';
+
+/**
+ * Appends every audit record to a file as one JSON object per line. Records
+ * are written in the order they arrive; `flush` resolves once everything
+ * received so far is on disk.
+ */
+export class JsonLinesAuditSink implements AuditSink {
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private path: string) {}
+
+  write = (record: AuditRecord): Promise<void> => {
+    const line = `${JSON.stringify(record)}\n`;
+    const write = this.writes.then(() => appendFile(this.path, line));
+
+    this.writes = write.catch(() => undefined);
+
+    return write;
+  };
+
+  flush = (): Promise<void> => {
+    return this.writes;
+  };
+}
@@ -0,0 +1,66 @@
+export type CacheOptions = {
+  /** Milliseconds an entry stays valid. Entries never expire when omitted. */
+  ttl?: number;
+  /** Maximum number of entries; the least recently used entry is evicted first. */
+  maxSize?: number;
+};
+
+export type CacheStats = {
+  hits: number;
+  misses: number;
+  size: number;
+};
+
+type CacheEntry<T> = {
+  value: T;
+  expires: number;
+};
+
+export class Cache<T> {
+  private entries = new Map<string, CacheEntry<T>>();
+  private hits = 0;
+  private misses = 0;
+  private ttl: number;
+  private maxSize: number;
+
+  constructor(
+    options: CacheOptions = {},
+    private now: () => number = Date.now
+  ) {
+    this.ttl = options.ttl ?? Infinity;
+    this.maxSize = options.maxSize ?? 10_000;
+  }
+
+  get stats(): CacheStats {
+    return { hits: this.hits, misses: this.misses, size: this.entries.size };
+  }
+
+  get = (key: string): T | undefined => {
+    const entry = this.entries.get(key);
+
+    if (!entry || entry.expires <= this.now()) {
+      if (entry) this.entries.delete(key);
+      this.misses++;
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+
+    return entry.value;
+  };
+
+  set = (key: string, value: T): void => {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expires: this.now() + this.ttl });
+
+    if (this.entries.size > this.maxSize) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  };
+
+  clear = (): void => {
+    this.entries.clear();
+  };
+}
@@ -0,0 +1,131 @@
+import { Subject } from '../types';
+import { AuthorizationContext } from '../policy';
+
+import { ConditionNode, ConditionRoot } from './parser';
+
+export type ConditionScope = Record<ConditionRoot, unknown>;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null;
+};
+
+const lookup = (value: unknown, path: string[]): unknown => {
+  let current = value;
+
+  for (const key of path) {
+    if (!isRecord(current) || !Object.hasOwn(current, key)) {
+      return undefined;
+    }
+
+    current = current[key];
+  }
+
+  return current;
+};
+
+const order = (left: unknown, right: unknown): number | undefined => {
+  if (typeof left === 'number' && typeof right === 'number') {
+    return left - right;
+  }
+
+  if (typeof left === 'string' && typeof right === 'string') {
+    return left === right ? 0 : left < right ? -1 : 1;
+  }
+
+  return undefined;
+};
+
+const contains = (
+  node: ConditionNode,
+  value: unknown,
+  scope: ConditionScope
+): boolean => {
+  if (node.type === 'range') {
+    const from = evaluateNode(node.from, scope);
+    const to = evaluateNode(node.to, scope);
+
+    return (
+      typeof value === 'number' &&
+      typeof from === 'number' &&
+      typeof to === 'number' &&
+      value >= from &&
+      value <= to
+    );
+  }
+
+  const collection = evaluateNode(node, scope);
+
+  if (Array.isArray(collection)) {
+    return collection.includes(value);
+  }
+
+  if (typeof collection === 'string' && typeof value === 'string') {
+    return collection.includes(value);
+  }
+
+  return false;
+};
+
+const evaluateNode = (node: ConditionNode, scope: ConditionScope): unknown => {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'path':
+      return lookup(scope[node.root], node.path);
+    case 'list':
+      return node.items.map((item) => evaluateNode(item, scope));
+    case 'range':
+      return undefined;
+    case 'not':
+      return evaluateNode(node.operand, scope) !== true;
+    case 'logical':
+      return node.operator === 'and'
+        ? evaluateNode(node.left, scope) === true &&
+            evaluateNode(node.right, scope) === true
+        : evaluateNode(node.left, scope) === true ||
+            evaluateNode(node.right, scope) === true;
+    case 'compare': {
+      const left = evaluateNode(node.left, scope);
+
+      if (node.operator === 'in' || node.operator === 'not in') {
+        return contains(node.right, left, scope) === (node.operator === 'in');
+      }
+
+      const right = evaluateNode(node.right, scope);
+
+      if (node.operator === '==') return left === right;
+      if (node.operator === '!=') return left !== right;
+
+      const difference = order(left, right);
+
+      if (difference === undefined) return false;
+
+      switch (node.operator) {
+        case '<':
+          return difference < 0;
+        case '<=':
+          return difference <= 0;
+        case '>':
+          return difference > 0;
+        case '>=':
+          return difference >= 0;
+      }
+    }
+  }
+};
+
+export const conditionScope = (
+  subject: Subject,
+  context: AuthorizationContext
+): ConditionScope => ({
+  subject,
+  context,
+  resource: context.resource
+});
+
+export const evaluateCondition = (
+  node: ConditionNode,
+  scope: ConditionScope
+): boolean => {
+  return evaluateNode(node, scope) === true;
+};
@@ -0,0 +1,47 @@
+import { PolicyFn, subjectOnly } from '../policy';
+
+import { ConditionNode, ConditionRoot, parseCondition } from './parser';
+import { conditionScope, evaluateCondition } from './evaluate';
+
+export * from './parser';
+export * from './evaluate';
+
+const sources = new WeakMap<PolicyFn, string>();
+
+const readsRoot = (node: ConditionNode, root: ConditionRoot): boolean => {
+  switch (node.type) {
+    case 'literal':
+      return false;
+    case 'path':
+      return node.root === root;
+    case 'list':
+      return node.items.some((item) => readsRoot(item, root));
+    case 'range':
+      return readsRoot(node.from, root) || readsRoot(node.to, root);
+    case 'not':
+      return readsRoot(node.operand, root);
+    case 'logical':
+    case 'compare':
+      return readsRoot(node.left, root) || readsRoot(node.right, root);
+  }
+};
+
+export const condition = (expression: string): PolicyFn => {
+  const node = parseCondition(expression);
+
+  const policy: PolicyFn = ({ subject, context }) =>
+    evaluateCondition(node, conditionScope(subject, context));
+
+  Object.defineProperty(policy, 'name', { value: expression });
+  sources.set(policy, expression);
+
+  if (!readsRoot(node, 'context') && !readsRoot(node, 'resource')) {
+    subjectOnly(policy);
+  }
+
+  return policy;
+};
+
+export const conditionSource = (policy: PolicyFn): string | undefined => {
+  return sources.get(policy);
+};
@@ -0,0 +1,287 @@
+import { ConditionSyntaxError } from '../errors';
+
+export type Literal = string | number | boolean | null;
+
+export type CompareOperator = '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in' | 'not in';
+
+export type ConditionNode =
+  | { type: 'literal'; value: Literal }
+  | { type: 'path'; root: ConditionRoot; path: string[] }
+  | { type: 'list'; items: ConditionNode[] }
+  | { type: 'range'; from: ConditionNode; to: ConditionNode }
+  | { type: 'not'; operand: ConditionNode }
+  | { type: 'logical'; operator: 'and' | 'or'; left: ConditionNode; right: ConditionNode }
+  | {
+      type: 'compare';
+      operator: CompareOperator;
+      left: ConditionNode;
+      right: ConditionNode;
+    };
+
+export type ConditionRoot = 'subject' | 'context' | 'resource';
+
+type Token = {
+  kind: 'number' | 'string' | 'word' | 'symbol' | 'end';
+  value: string;
+  position: number;
+};
+
+const ROOTS: ConditionRoot[] = ['subject', 'context', 'resource'];
+const FORBIDDEN_KEYS = ['__proto__', 'prototype', 'constructor'];
+const SYMBOLS = [
+  '==',
+  '!=',
+  '<=',
+  '>=',
+  '&&',
+  '||',
+  '..',
+  '<',
+  '>',
+  '!',
+  '(',
+  ')',
+  '[',
+  ']',
+  ',',
+  '.'
+];
+const COMPARE_SYMBOLS = ['==', '!=', '<', '<=', '>', '>='];
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const number = /^-?\d+(\.\d+)?/.exec(source.slice(i));
+    const previous = tokens[tokens.length - 1];
+    const afterValue =
+      previous && (previous.kind !== 'symbol' || [')', ']'].includes(previous.value));
+
+    if (number && (char !== '-' || !afterValue)) {
+      tokens.push({ kind: 'number', value: number[0], position: i });
+      i += number[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      let j = i + 1;
+
+      while (j < source.length && source[j] !== char) {
+        value += source[j] === '\\' ? source[++j] : source[j];
+        j++;
+      }
+
+      if (j >= source.length) {
+        throw new ConditionSyntaxError('Unterminated string', source, i);
+      }
+
+      tokens.push({ kind: 'string', value, position: i });
+      i = j + 1;
+      continue;
+    }
+
+    const word = /^[A-Za-z_$][\w$]*/.exec(source.slice(i));
+
+    if (word) {
+      tokens.push({ kind: 'word', value: word[0], position: i });
+      i += word[0].length;
+      continue;
+    }
+
+    const symbol = SYMBOLS.find((candidate) => source.startsWith(candidate, i));
+
+    if (!symbol) {
+      throw new ConditionSyntaxError(`Unexpected character "${char}"`, source, i);
+    }
+
+    tokens.push({ kind: 'symbol', value: symbol, position: i });
+    i += symbol.length;
+  }
+
+  tokens.push({ kind: 'end', value: '', position: source.length });
+
+  return tokens;
+};
+
+export const parseCondition = (source: string): ConditionNode => {
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const peek = (): Token => tokens[index];
+
+  const fail = (message: string, token = peek()): never => {
+    throw new ConditionSyntaxError(message, source, token.position);
+  };
+
+  const describe = (token: Token) =>
+    token.kind === 'end' ? 'end of input' : `"${token.value}"`;
+
+  const accept = (kind: Token['kind'], value?: string): Token | undefined => {
+    const token = peek();
+
+    if (token.kind === kind && (value === undefined || token.value === value)) {
+      index++;
+      return token;
+    }
+
+    return undefined;
+  };
+
+  const expect = (kind: Token['kind'], value: string): Token => {
+    return (
+      accept(kind, value) ?? fail(`Expected "${value}" but found ${describe(peek())}`)
+    );
+  };
+
+  const parseOr = (): ConditionNode => {
+    let left = parseAnd();
+
+    while (accept('symbol', '||') || accept('word', 'or')) {
+      left = { type: 'logical', operator: 'or', left, right: parseAnd() };
+    }
+
+    return left;
+  };
+
+  const parseAnd = (): ConditionNode => {
+    let left = parseUnary();
+
+    while (accept('symbol', '&&') || accept('word', 'and')) {
+      left = { type: 'logical', operator: 'and', left, right: parseUnary() };
+    }
+
+    return left;
+  };
+
+  const parseUnary = (): ConditionNode => {
+    if (accept('symbol', '!') || accept('word', 'not')) {
+      return { type: 'not', operand: parseUnary() };
+    }
+
+    return parseComparison();
+  };
+
+  const parseComparison = (): ConditionNode => {
+    const left = parseValue();
+    const token = peek();
+
+    if (token.kind === 'symbol' && COMPARE_SYMBOLS.includes(token.value)) {
+      index++;
+      return {
+        type: 'compare',
+        operator: token.value as CompareOperator,
+        left,
+        right: parseValue()
+      };
+    }
+
+    if (accept('word', 'in')) {
+      return { type: 'compare', operator: 'in', left, right: parseValue() };
+    }
+
+    if (
+      token.kind === 'word' &&
+      token.value === 'not' &&
+      tokens[index + 1].value === 'in'
+    ) {
+      index += 2;
+      return { type: 'compare', operator: 'not in', left, right: parseValue() };
+    }
+
+    return left;
+  };
+
+  const parseValue = (): ConditionNode => {
+    const token = peek();
+
+    if (accept('symbol', '(')) {
+      const expression = parseOr();
+      expect('symbol', ')');
+      return expression;
+    }
+
+    if (accept('symbol', '[')) {
+      return parseList();
+    }
+
+    if (accept('number')) {
+      return { type: 'literal', value: Number(token.value) };
+    }
+
+    if (accept('string')) {
+      return { type: 'literal', value: token.value };
+    }
+
+    if (accept('word')) {
+      switch (token.value) {
+        case 'true':
+          return { type: 'literal', value: true };
+        case 'false':
+          return { type: 'literal', value: false };
+        case 'null':
+          return { type: 'literal', value: null };
+      }
+
+      if (!ROOTS.includes(token.value as ConditionRoot)) {
+        fail(`Unknown identifier "${token.value}", expected ${ROOTS.join(', ')}`, token);
+      }
+
+      const path: string[] = [];
+
+      while (accept('symbol', '.')) {
+        const key = accept('word') ?? fail(`Expected a property name after "."`);
+
+        if (FORBIDDEN_KEYS.includes(key.value)) {
+          fail(`Access to "${key.value}" is not allowed`, key);
+        }
+
+        path.push(key.value);
+      }
+
+      return { type: 'path', root: token.value as ConditionRoot, path };
+    }
+
+    return fail(`Unexpected ${describe(token)}`);
+  };
+
+  const parseList = (): ConditionNode => {
+    if (accept('symbol', ']')) {
+      return { type: 'list', items: [] };
+    }
+
+    const first = parseValue();
+
+    if (accept('symbol', '..')) {
+      const to = parseValue();
+      expect('symbol', ']');
+      return { type: 'range', from: first, to };
+    }
+
+    const items = [first];
+
+    while (accept('symbol', ',')) {
+      items.push(parseValue());
+    }
+
+    expect('symbol', ']');
+
+    return { type: 'list', items };
+  };
+
+  const expression = parseOr();
+
+  if (peek().kind !== 'end') {
+    fail(`Unexpected ${describe(peek())}`);
+  }
+
+  return expression;
+};
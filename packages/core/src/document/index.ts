@@ -0,0 +1,124 @@
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+
+import { PolicyDocument, Role } from '../types';
+import { RBACEngine } from '../engine';
+import { PermissionGrammar, defaultGrammar } from '../permissions';
+import { parseCondition } from '../conditions';
+import { ConditionSyntaxError, DocumentIssue, DocumentValidationError } from '../errors';
+
+import { checkSchema, isObject, policyDocumentSchema } from './schema';
+
+export { policyDocumentSchema } from './schema';
+export type { JsonSchema } from './schema';
+
+export type DocumentFormat = 'json' | 'yaml';
+
+const detectFormat = (source: string): DocumentFormat => {
+  return /^\s*[{[]/.test(source) ? 'json' : 'yaml';
+};
+
+export const parseDocument = (source: string, format = detectFormat(source)): unknown => {
+  try {
+    return format === 'json' ? JSON.parse(source) : parseYaml(source);
+  } catch (error) {
+    throw new DocumentValidationError([
+      { path: '', message: `Unable to parse ${format}: ${(error as Error).message}` }
+    ]);
+  }
+};
+
+export const serializeDocument = (
+  document: PolicyDocument,
+  format: DocumentFormat = 'json'
+): string => {
+  return format === 'json'
+    ? `${JSON.stringify(document, null, 2)}\n`
+    : stringifyYaml(document);
+};
+
+/**
+ * Validates a document against `policyDocumentSchema`, then checks what the
+ * schema cannot express: the permission grammar, unique names, known parent
+ * roles and condition syntax.
+ */
+export const validateDocument = (
+  input: unknown,
+  grammar: PermissionGrammar = defaultGrammar
+): DocumentIssue[] => {
+  const roles = isObject(input) && Array.isArray(input.roles) ? input.roles : [];
+  const roleNames = new Set(
+    roles.flatMap((role: unknown) =>
+      isObject(role) && typeof role.name === 'string' ? [role.name] : []
+    )
+  );
+  const seenPermissions = new Set<string>();
+  const seenRoles = new Set<string>();
+
+  return checkSchema(policyDocumentSchema, input, {
+    '#/$defs/pattern': grammar.validate,
+    '#/$defs/permission/properties/name': (name) => {
+      if (seenPermissions.has(name)) return `Duplicate permission "${name}"`;
+      seenPermissions.add(name);
+    },
+    '#/$defs/role/properties/name': (name) => {
+      if (seenRoles.has(name)) return `Duplicate role "${name}"`;
+      seenRoles.add(name);
+    },
+    '#/$defs/role/properties/inherits/items': (parent) => {
+      if (!roleNames.has(parent)) return `Unknown role "${parent}"`;
+    },
+    '#/$defs/policy/properties/condition': (condition) => {
+      try {
+        parseCondition(condition);
+      } catch (error) {
+        if (!(error instanceof ConditionSyntaxError)) throw error;
+        return error.message;
+      }
+    }
+  });
+};
+
+const orderByInheritance = (roles: Role[]): Role[] => {
+  const byName = new Map(roles.map((role) => [role.name, role]));
+  const ordered: Role[] = [];
+  const visited = new Set<string>();
+
+  const visit = (role: Role) => {
+    if (visited.has(role.name)) return;
+    visited.add(role.name);
+
+    role.inherits?.forEach((name) => {
+      const parent = byName.get(name);
+      if (parent) visit(parent);
+    });
+
+    ordered.push(role);
+  };
+
+  roles.forEach(visit);
+
+  return ordered;
+};
+
+export const loadDocument = (
+  engine: RBACEngine,
+  source: unknown,
+  format?: DocumentFormat
+): PolicyDocument => {
+  const input = typeof source === 'string' ? parseDocument(source, format) : source;
+  const issues = validateDocument(input, engine.grammar);
+
+  if (issues.length > 0) {
+    throw new DocumentValidationError(issues);
+  }
+
+  const document = input as PolicyDocument;
+
+  document.permissions?.forEach(engine.addPermission);
+  orderByInheritance(document.roles).forEach(engine.addRole);
+  document.policies?.forEach((policy) =>
+    engine.addPolicy(policy.permission, policy.condition)
+  );
+
+  return document;
+};
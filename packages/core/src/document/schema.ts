@@ -0,0 +1,252 @@
+import { DocumentIssue } from '../errors';
+
+/**
+ * The subset of JSON Schema (draft 2020-12) used by the policy document schema.
+ */
+export type JsonSchema = {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  title?: string;
+  description?: string;
+  type?: 'object' | 'array' | 'string' | 'number';
+  const?: unknown;
+  minLength?: number;
+  pattern?: string;
+  items?: JsonSchema;
+  required?: string[];
+  additionalProperties?: boolean;
+  properties?: Record<string, JsonSchema>;
+};
+
+/**
+ * Checks a string that passed its schema keywords, returning an issue message.
+ */
+export type SchemaRefinement = (value: string) => string | undefined;
+
+/**
+ * The published policy document schema. `schema/policy-document.schema.json`
+ * is generated from it by the document tests (`vitest run -u`).
+ */
+export const policyDocumentSchema = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: 'https://unpkg.com/@unirbac/core/schema/policy-document.schema.json',
+  title: 'UniRBAC policy document',
+  type: 'object',
+  additionalProperties: false,
+  required: ['version', 'roles'],
+  properties: {
+    $schema: { type: 'string' },
+    version: { title: 'document version', const: 1 },
+    permissions: {
+      type: 'array',
+      items: { $ref: '#/$defs/permission' }
+    },
+    roles: {
+      type: 'array',
+      items: { $ref: '#/$defs/role' }
+    },
+    policies: {
+      type: 'array',
+      items: { $ref: '#/$defs/policy' }
+    }
+  },
+  $defs: {
+    pattern: {
+      title: 'permission pattern',
+      description:
+        'Permission pattern: segments separated by ":" or ".", with "*", a trailing "**", in-segment globs, "{a,b}" alternation and "\\" escapes. The loader checks the full grammar.',
+      type: 'string',
+      minLength: 1,
+      pattern: '^\\S+$'
+    },
+    permission: {
+      title: 'permission',
+      type: 'object',
+      additionalProperties: false,
+      required: ['name'],
+      properties: {
+        name: { $ref: '#/$defs/pattern' },
+        description: { type: 'string' }
+      }
+    },
+    role: {
+      title: 'role',
+      type: 'object',
+      additionalProperties: false,
+      required: ['name', 'level', 'permissions'],
+      properties: {
+        name: { type: 'string', minLength: 1 },
+        level: { type: 'number' },
+        permissions: {
+          type: 'array',
+          items: { $ref: '#/$defs/pattern' }
+        },
+        inherits: {
+          type: 'array',
+          items: { title: 'role name', type: 'string' }
+        },
+        denies: {
+          type: 'array',
+          items: { $ref: '#/$defs/pattern' }
+        }
+      }
+    },
+    policy: {
+      title: 'policy',
+      type: 'object',
+      additionalProperties: false,
+      required: ['permission', 'condition'],
+      properties: {
+        permission: { $ref: '#/$defs/pattern' },
+        condition: { type: 'string', minLength: 1 }
+      }
+    }
+  }
+} satisfies JsonSchema;
+
+type Fields = Record<string, unknown>;
+
+export const isObject = (value: unknown): value is Fields => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const matchesType = (type: JsonSchema['type'], value: unknown): boolean => {
+  switch (type) {
+    case 'object':
+      return isObject(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return true;
+  }
+};
+
+/**
+ * Validates `input` against `schema`. A value that fails a keyword is not
+ * checked further, so each string reports at most one issue.
+ *
+ * Refinements are keyed by schema location (`#/$defs/pattern`,
+ * `#/$defs/role/properties/name`) and run on strings that satisfy `type` and
+ * `minLength`. They run before `pattern`, which they are expected to subsume.
+ */
+export const checkSchema = (
+  schema: JsonSchema,
+  input: unknown,
+  refinements: Record<string, SchemaRefinement> = {}
+): DocumentIssue[] => {
+  const issues: DocumentIssue[] = [];
+  const report = (path: string, message: string) => issues.push({ path, message });
+
+  const resolve = (node: JsonSchema, location: string): [JsonSchema, string[]] => {
+    const locations = [location];
+
+    while (node.$ref !== undefined) {
+      const name = node.$ref.replace(/^#\/\$defs\//, '');
+      const target = schema.$defs?.[name];
+
+      if (target === undefined) {
+        throw new Error(`Unsupported schema reference "${node.$ref}"`);
+      }
+
+      locations.push(node.$ref);
+      node = target;
+    }
+
+    return [node, locations];
+  };
+
+  const describeType = (node: JsonSchema): string => {
+    switch (node.type) {
+      case 'object':
+        return node.title
+          ? `${node.title[0].toUpperCase()}${node.title.slice(1)} must be an object`
+          : 'Must be an object';
+      case 'array': {
+        const items = node.items && resolve(node.items, '')[0];
+        return items?.type === 'string' && items.title
+          ? `Must be an array of ${items.title}s`
+          : 'Must be an array';
+      }
+      case 'string':
+        return node.minLength ? 'Must be a non-empty string' : 'Must be a string';
+      default:
+        return `Must be a ${node.type}`;
+    }
+  };
+
+  const visit = (node: JsonSchema, location: string, value: unknown, path: string) => {
+    const [resolved, locations] = resolve(node, location);
+    const base = locations[locations.length - 1];
+
+    if ('const' in resolved && value !== resolved.const) {
+      const expected = JSON.stringify(resolved.const);
+      report(
+        path,
+        resolved.title
+          ? `Unsupported ${resolved.title}, expected ${expected}`
+          : `Must be ${expected}`
+      );
+      return;
+    }
+
+    if (!matchesType(resolved.type, value)) {
+      report(path, describeType(resolved));
+      return;
+    }
+
+    if (typeof value === 'string') {
+      if (resolved.minLength !== undefined && value.length < resolved.minLength) {
+        report(path, describeType({ type: 'string', minLength: resolved.minLength }));
+        return;
+      }
+
+      for (const at of locations) {
+        const message = refinements[at]?.(value);
+
+        if (message !== undefined) {
+          report(path, message);
+          return;
+        }
+      }
+
+      if (resolved.pattern !== undefined && !new RegExp(resolved.pattern).test(value)) {
+        report(path, `Must match ${resolved.pattern}`);
+      }
+    }
+
+    if (Array.isArray(value) && resolved.items) {
+      const items = resolved.items;
+      value.forEach((item, i) => visit(items, `${base}/items`, item, `${path}/${i}`));
+    }
+
+    if (isObject(value)) {
+      const properties = resolved.properties ?? {};
+
+      if (resolved.additionalProperties === false) {
+        Object.keys(value)
+          .filter((key) => !Object.hasOwn(properties, key))
+          .forEach((key) => report(`${path}/${key}`, 'Unknown property'));
+      }
+
+      resolved.required
+        ?.filter((key) => value[key] === undefined)
+        .forEach((key) => report(`${path}/${key}`, 'Required'));
+
+      Object.entries(properties)
+        .filter(([key]) => value[key] !== undefined)
+        .forEach(([key, child]) =>
+          visit(child, `${base}/properties/${key}`, value[key], `${path}/${key}`)
+        );
+    }
+  };
+
+  visit(schema, '#', input, '');
+
+  return issues;
+};
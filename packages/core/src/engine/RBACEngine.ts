@@ -1,97 +1,1489 @@
-import { PermissionName, Role, Subject } from '../types';
-import { PolicyFn, AuthorizationContext } from '../policy';
-import { Permission } from '../permissions';
+import {
+  Permission as PermissionEntry,
+  PermissionName,
+  PolicyDocument,
+  Resource,
+  PermissionAssignment,
+  Role,
+  RoleAssignment,
+  Subject
+} from '../types';
+import {
+  PolicyFn,
+  AuthorizationContext,
+  PolicyStrategy,
+  evaluatePolicy,
+  describePolicy,
+  isContextual
+} from '../policy';
+import {
+  PermissionGrammar,
+  PermissionIndex,
+  PermissionSyntax,
+  defaultGrammar
+} from '../permissions';
+import { condition, conditionSource } from '../conditions';
+import {
+  ElevationError,
+  RoleIssue,
+  RoleNotFoundError,
+  RoleValidationError
+} from '../errors';
+import { StorageAdapter } from '../adapters';
+import { Cache, CacheOptions, CacheStats } from '../cache';
+import { Emitter } from '../events';
+import { AuditOptions, AuditRecord, redactContext } from '../audit';
+import { PermissionSnapshot, createSnapshot } from '../snapshot';
+
+import {
+  DecisionTrace,
+  InactiveGrantTrace,
+  RuleSource,
+  RuleTrace,
+  describeSource
+} from './trace';
+import { validateRoles } from './validation';
+import { copyRole } from './role';
+import {
+  BrandedResource,
+  isResource,
+  resourceContext,
+  resourcePermissions
+} from './resource';
+import {
+  Elevation,
+  ElevationContext,
+  ElevationOptions,
+  ElevationRegistry,
+  ElevationRequest,
+  ElevationRevocation
+} from './elevation';
+import {
+  formatBound,
+  isBounded,
+  nextWindowChange,
+  permissionAssignments,
+  roleAssignments,
+  windowStatus
+} from './window';
 
 export type Authorization = {
   allowed: boolean;
   reason?: string;
   permission: string;
+  policy?: string;
+  resource?: Resource;
+  /** Id of the break-glass elevation that granted the permission. */
+  elevation?: string;
+};
+
+export type Explanation = {
+  authorization: Authorization;
+  trace: DecisionTrace;
+};
+
+export type BatchAuthorization = {
+  allowed: boolean;
+  results: Record<string, Authorization>;
+};
+
+export type RBACEngineOptions = {
+  policyStrategy?: PolicyStrategy;
+  strict?: boolean;
+  syntax?: PermissionSyntax;
+  /**
+   * Resolves the parent of a scope that was not registered with `addScope`,
+   * e.g. `project:x` -> `org:a`, so assignments on a scope reach its descendants.
+   */
+  scopeParent?: (scope: string) => string | undefined;
+  /**
+   * Fetches roles that are not registered yet from storage when a subject
+   * needs them. Fetched roles stay cached until `refresh` is called.
+   */
+  storage?: StorageAdapter;
+  /**
+   * Caches resolved role graphs and decisions. Decisions only get cached when
+   * every policy involved is marked with `subjectOnly`, as conditions that do
+   * not read `context` or `resource` are. Any change to roles, policies or
+   * scopes invalidates both caches.
+   */
+  cache?: boolean | CacheOptions;
+  /**
+   * Sends every decision made by `can`, `canMany`, `filter` and sessions to an
+   * audit sink. `explain` is not audited.
+   */
+  audit?: AuditOptions;
+  /**
+   * Current time in milliseconds, used to check the `validFrom` / `validUntil`
+   * windows of assignments, expire elevations and stamp audit records.
+   * Defaults to `Date.now`.
+   */
+  now?: () => number;
+  /**
+   * Enables break-glass elevation through `elevate`. Without it, no subject can
+   * be elevated.
+   */
+  elevation?: ElevationOptions;
+};
+
+export type AuthorizationCheck<T> = {
+  (subject: Subject, permission: string, context?: AuthorizationContext): Promise<T>;
+  (
+    subject: Subject,
+    action: string,
+    resource: BrandedResource,
+    context?: AuthorizationContext
+  ): Promise<T>;
+};
+
+export type PolicyChange = {
+  type: 'added' | 'removed';
+  pattern: string;
+  policy: string;
+  condition?: string;
+};
+
+export type EngineEvents = {
+  roleAdded: { role: Role };
+  roleUpdated: { role: Role; previous: Role };
+  roleRemoved: { role: Role };
+  policyChanged: PolicyChange;
+  elevationGranted: { elevation: Elevation };
+  elevationRevoked: ElevationRevocation;
+};
+
+export type EngineCacheStats = {
+  decisions: CacheStats;
+  roles: CacheStats;
+};
+
+export type AuthorizationSession = {
+  can: AuthorizationCheck<Authorization>;
+  canMany: RBACEngine['canMany'];
+  canAll: RBACEngine['canAll'];
+  canAny: RBACEngine['canAny'];
+  filter: RBACEngine['filter'];
+  stats: () => CacheStats;
+};
+
+type AuthorizationRequest = {
+  permissions: PermissionName[];
+  context: AuthorizationContext;
+  resource?: Resource;
+  scope?: string;
+};
+
+type RoleOrigin = {
+  path: string[];
+  scope?: string;
+  elevation?: string;
+};
+
+type Assignment = RoleAssignment & {
+  elevation?: string;
+};
+
+type PolicyEntry = {
+  pattern: string;
+  policy: PolicyFn;
+};
+
+type Rule = {
+  pattern: PermissionName;
+  source: RuleSource;
+};
+
+type Decision = {
+  authorization: Authorization;
+  grant?: Rule;
+  deny?: Rule;
+  /** Policies evaluated for the decision, in order. */
+  policies?: string[];
+};
+
+type RuleIndexes = {
+  grants: PermissionIndex<Rule>;
+  denies: PermissionIndex<Rule>;
+};
+
+type RoleGraph = {
+  roles: Role[];
+  origins: Map<string, RoleOrigin>;
+};
+
+type ResolvedSubject = {
+  subject: Subject;
+  roles: Role[];
+  origins: Map<string, RoleOrigin>;
+  elevations: Map<string, Elevation>;
+  grants: PermissionIndex<Rule>[];
+  denies: PermissionIndex<Rule>[];
+};
+
+const scopeOf = (context: AuthorizationContext): string | undefined => {
+  return typeof context.scope === 'string' ? context.scope : undefined;
+};
+
+const describeEntry = ({ pattern, policy }: PolicyEntry) => {
+  const source = conditionSource(policy);
+
+  return {
+    pattern,
+    policy: describePolicy(policy),
+    ...(source !== undefined && { condition: source })
+  };
+};
+
+const summarize = (
+  results: Record<string, Authorization>,
+  mode: 'every' | 'some'
+): BatchAuthorization => ({
+  allowed: Object.values(results)[mode]((result) => result.allowed),
+  results
+});
+
+const roleNames = (subject: Subject): string[] => {
+  return subject.roles.map((entry) => (typeof entry === 'string' ? entry : entry.role));
 };
 
 export class RBACEngine {
+  readonly grammar: PermissionGrammar;
   private roles = new Map<string, Role>();
-  private policies = new Map<string, PolicyFn>();
+  private indexes = new Map<string, RuleIndexes>();
+  private policies: PolicyEntry[] = [];
+  private catalog = new Map<PermissionName, PermissionEntry>();
+  private scopes = new Map<string, string>();
+  private policyStrategy: PolicyStrategy;
+  private strict: boolean;
+  private scopeParent: (scope: string) => string | undefined;
+  private storage?: StorageAdapter;
+  private stored = new Set<string>();
+  private unknown = new Set<string>();
+  private decisions?: Cache<Decision>;
+  private graphs?: Cache<RoleGraph>;
+  private version = 0;
+  private events = new Emitter<EngineEvents>();
+  private audit?: AuditOptions;
+  private now: () => number;
+  private elevation?: ElevationOptions;
+  private elevations: ElevationRegistry;
+
+  constructor(options: RBACEngineOptions = {}) {
+    this.policyStrategy = options.policyStrategy ?? 'all';
+    this.strict = options.strict ?? false;
+    this.grammar = new PermissionGrammar(options.syntax);
+    this.scopeParent = options.scopeParent ?? (() => undefined);
+    this.storage = options.storage;
+    this.audit = options.audit;
+    this.now = options.now ?? Date.now;
+    this.elevation = options.elevation;
+    this.elevations = new ElevationRegistry(this.now, (elevation) =>
+      this.events.emit('elevationRevoked', {
+        elevation: { ...elevation },
+        reason: 'expired'
+      })
+    );
+
+    if (options.cache) {
+      const cacheOptions = options.cache === true ? {} : options.cache;
+      this.decisions = new Cache(cacheOptions);
+      this.graphs = new Cache(cacheOptions);
+    }
+  }
 
   addRole = (role: Role): void => {
+    if (this.strict) {
+      const issues = validateRoles(
+        new Map(this.roles).set(role.name, role),
+        this.grammar,
+        role.name
+      );
+
+      if (issues.length > 0) {
+        throw new RoleValidationError(issues);
+      }
+    }
+
+    const indexes = this.compileRole(role);
+    const previous = this.roles.get(role.name);
+
     this.roles.set(role.name, role);
+    this.indexes.set(role.name, indexes);
+    this.invalidate();
+
+    if (previous) {
+      this.events.emit('roleUpdated', {
+        role: copyRole(role),
+        previous: copyRole(previous)
+      });
+    } else {
+      this.events.emit('roleAdded', { role: copyRole(role) });
+    }
   };
 
-  addPolicy = (permission: string, policyCallback: PolicyFn): void => {
-    this.policies.set(permission, policyCallback);
+  /**
+   * Replaces an existing role. Unlike `addRole` it refuses to create a role
+   * that does not exist yet.
+   */
+  updateRole = (role: Role): void => {
+    if (!this.roles.has(role.name)) {
+      throw new RoleNotFoundError(role.name);
+    }
+
+    this.addRole(role);
   };
 
-  can = async (
+  /**
+   * Removes a role and returns whether it existed. Roles inheriting from it
+   * keep their other grants; in strict mode removing an inherited role is
+   * refused instead.
+   */
+  removeRole = (name: string): boolean => {
+    const role = this.roles.get(name);
+    if (!role) return false;
+
+    if (this.strict) {
+      const remaining = new Map(this.roles);
+      remaining.delete(name);
+
+      const issues = [...remaining.values()]
+        .filter((other) => other.inherits?.includes(name))
+        .flatMap((other) => validateRoles(remaining, this.grammar, other.name))
+        .filter((issue) => issue.type === 'unknown-role');
+
+      if (issues.length > 0) {
+        throw new RoleValidationError(issues);
+      }
+    }
+
+    this.roles.delete(name);
+    this.indexes.delete(name);
+    this.stored.delete(name);
+    this.invalidate();
+    this.events.emit('roleRemoved', { role: copyRole(role) });
+
+    return true;
+  };
+
+  getRole = (name: string): Role | undefined => {
+    const role = this.roles.get(name);
+    return role && copyRole(role);
+  };
+
+  listRoles = (): Role[] => {
+    return [...this.roles.values()].map(copyRole);
+  };
+
+  /**
+   * Subscribes to configuration changes and returns an unsubscribe function.
+   */
+  on = <E extends keyof EngineEvents>(
+    event: E,
+    listener: (payload: EngineEvents[E]) => void
+  ): (() => void) => {
+    return this.events.on(event, listener);
+  };
+
+  off = <E extends keyof EngineEvents>(
+    event: E,
+    listener: (payload: EngineEvents[E]) => void
+  ): void => {
+    this.events.off(event, listener);
+  };
+
+  /**
+   * Nests a scope under a parent scope (`folder:f` under `project:p` under
+   * `org:a`). Roles assigned on a scope then also apply in every nested scope.
+   */
+  addScope = (scope: string, parent: string): void => {
+    if (this.scopeChain(parent).includes(scope)) {
+      throw new Error(
+        `Scope "${scope}" cannot be nested under its descendant "${parent}"`
+      );
+    }
+
+    this.scopes.set(scope, parent);
+    this.invalidate();
+  };
+
+  /**
+   * Fetches the named roles and everything they inherit from storage, skipping
+   * roles that are already registered. Roles are added parents first, so strict
+   * mode validates each one against its loaded parents.
+   */
+  loadRoles = async (names: string[]): Promise<void> => {
+    const storage = this.storage;
+    if (!storage) return;
+
+    const fetched = new Map<string, Role>();
+    const seen = new Set<string>();
+    let pending = names;
+
+    while (pending.length > 0) {
+      const next = [...new Set(pending)].filter((name) => !seen.has(name));
+      next.forEach((name) => seen.add(name));
+
+      const missing = next.filter(
+        (name) => !this.roles.has(name) && !this.unknown.has(name) && !fetched.has(name)
+      );
+      const roles = await this.fetchRoles(storage, missing);
+
+      pending = next.flatMap((name) => this.roles.get(name)?.inherits ?? []);
+      roles.forEach((role) => {
+        if (this.roles.has(role.name)) return;
+
+        fetched.set(role.name, role);
+        pending.push(...(role.inherits ?? []));
+      });
+
+      missing
+        .filter((name) => !fetched.has(name))
+        .forEach((name) => this.unknown.add(name));
+    }
+
+    const added = new Set<string>();
+    const add = (role: Role) => {
+      if (added.has(role.name)) return;
+      added.add(role.name);
+
+      // Another load, or addRole, may have registered it while we were fetching.
+      if (this.roles.has(role.name)) return;
+
+      role.inherits?.forEach((name) => {
+        const parent = fetched.get(name);
+        if (parent) add(parent);
+      });
+
+      this.addRole(role);
+      this.stored.add(role.name);
+    };
+
+    fetched.forEach(add);
+  };
+
+  /**
+   * Fetches a subject and the roles assigned to it from storage.
+   */
+  loadSubject = async (id: string): Promise<Subject | undefined> => {
+    const subject = await this.storage?.getSubject(id);
+
+    if (subject) {
+      await this.loadRoles(roleNames(subject));
+    }
+
+    return subject;
+  };
+
+  /**
+   * Forgets roles fetched from storage, one or all of them, so they are fetched
+   * again on next use. Roles registered with `addRole` are kept.
+   */
+  refresh = (name?: string): void => {
+    const names = name === undefined ? [...this.stored] : [name];
+
+    for (const role of names) {
+      if (!this.stored.delete(role)) continue;
+
+      this.roles.delete(role);
+      this.indexes.delete(role);
+    }
+
+    if (name === undefined) {
+      this.unknown.clear();
+    } else {
+      this.unknown.delete(name);
+    }
+
+    this.invalidate();
+  };
+
+  validate = (): RoleIssue[] => {
+    return validateRoles(this.roles, this.grammar);
+  };
+
+  addPermission = (permission: PermissionEntry): void => {
+    this.catalog.set(permission.name, permission);
+  };
+
+  toDocument = (): PolicyDocument => {
+    const document: PolicyDocument = {
+      version: 1,
+      roles: this.listRoles()
+    };
+
+    if (this.catalog.size > 0) {
+      document.permissions = [...this.catalog.values()].map((permission) => ({
+        ...permission
+      }));
+    }
+
+    const policies = this.policies.flatMap(({ pattern, policy }) => {
+      const source = conditionSource(policy);
+      return source === undefined ? [] : [{ permission: pattern, condition: source }];
+    });
+
+    if (policies.length > 0) {
+      document.policies = policies;
+    }
+
+    return document;
+  };
+
+  /**
+   * Registers a policy under a permission pattern (`post:edit`, `post:*`, `admin:**`).
+   * Policies whose pattern matches the requested permission run in registration
+   * order; with the `all` strategy every one must pass, with `first` the first
+   * matching policy decides. Registering several policies under the same pattern
+   * stacks them; compose them explicitly with `allOf`, `anyOf` and `not`.
+   * A string is parsed as a declarative condition such as
+   * `subject.id == resource.ownerId`.
+   */
+  addPolicy = (pattern: string, policyCallback: PolicyFn | string): void => {
+    this.grammar.parse(pattern);
+
+    const policy =
+      typeof policyCallback === 'string' ? condition(policyCallback) : policyCallback;
+
+    this.policies.push({ pattern, policy });
+    this.invalidate();
+    this.events.emit('policyChanged', {
+      type: 'added',
+      ...describeEntry({ pattern, policy })
+    });
+  };
+
+  /**
+   * Removes the policies registered under exactly `pattern`, or only the given
+   * one: the same function, or a condition with the same source. Returns how
+   * many were removed.
+   */
+  removePolicy = (pattern: string, policy?: PolicyFn | string): number => {
+    const matches = (entry: PolicyEntry) =>
+      entry.pattern === pattern &&
+      (policy === undefined ||
+        entry.policy === policy ||
+        (typeof policy === 'string' && conditionSource(entry.policy) === policy));
+
+    const removed = this.policies.filter(matches);
+    if (removed.length === 0) return 0;
+
+    this.policies = this.policies.filter((entry) => !matches(entry));
+    this.invalidate();
+    removed.forEach((entry) =>
+      this.events.emit('policyChanged', { type: 'removed', ...describeEntry(entry) })
+    );
+
+    return removed.length;
+  };
+
+  /**
+   * Checks a permission, or an action on a resource built with `resource()`.
+   * With a resource the instance permission (`document:123:edit`) and the type
+   * permission (`document:edit`) are both considered, and policies see the
+   * resource as `context.resource`.
+   */
+  can: AuthorizationCheck<Authorization> = async (
     subject: Subject,
     permission: string,
+    target: AuthorizationContext | BrandedResource = {},
     context: AuthorizationContext = {}
   ): Promise<Authorization> => {
-    const permissions: Set<PermissionName> = this.resolvePermissions(subject);
+    const [result] = await this.authorize(subject, [
+      this.toRequest(permission, target, context)
+    ]);
+
+    return result;
+  };
+
+  /**
+   * Keeps the resources on which the subject may perform `action`.
+   */
+  filter = async <R extends Resource>(
+    subject: Subject,
+    action: string,
+    resources: R[],
+    context: AuthorizationContext = {}
+  ): Promise<R[]> => {
+    return this.filterWith(this.decisions, subject, action, resources, context);
+  };
+
+  canMany = async (
+    subject: Subject,
+    permissions: string[],
+    context: AuthorizationContext = {}
+  ): Promise<Record<string, Authorization>> => {
+    return this.canManyWith(this.decisions, subject, permissions, context);
+  };
+
+  canAll = async (
+    subject: Subject,
+    permissions: string[],
+    context: AuthorizationContext = {}
+  ): Promise<BatchAuthorization> => {
+    return summarize(await this.canMany(subject, permissions, context), 'every');
+  };
+
+  canAny = async (
+    subject: Subject,
+    permissions: string[],
+    context: AuthorizationContext = {}
+  ): Promise<BatchAuthorization> => {
+    return summarize(await this.canMany(subject, permissions, context), 'some');
+  };
 
-    const matchedPermission = [...permissions].some((perm) =>
-      Permission.match(perm, permission)
+  /**
+   * Returns checks that share a decision cache of their own, meant to live for
+   * one unit of work such as an HTTP request. Works whether or not the engine
+   * has a cache configured.
+   */
+  session = (): AuthorizationSession => {
+    const cache = new Cache<Decision>();
+
+    const canMany = (
+      subject: Subject,
+      permissions: string[],
+      context: AuthorizationContext = {}
+    ) => this.canManyWith(cache, subject, permissions, context);
+
+    return {
+      can: async (
+        subject: Subject,
+        permission: string,
+        target: AuthorizationContext | BrandedResource = {},
+        context: AuthorizationContext = {}
+      ) => {
+        const request = this.toRequest(permission, target, context);
+        const [result] = await this.authorize(subject, [request], cache);
+
+        return result;
+      },
+      canMany,
+      canAll: async (subject, permissions, context) =>
+        summarize(await canMany(subject, permissions, context), 'every'),
+      canAny: async (subject, permissions, context) =>
+        summarize(await canMany(subject, permissions, context), 'some'),
+      filter: (subject, action, resources, context = {}) =>
+        this.filterWith(cache, subject, action, resources, context),
+      stats: () => cache.stats
+    };
+  };
+
+  /**
+   * Hit and miss counts of the engine-wide decision and role graph caches, or
+   * `undefined` when the engine was created without `cache`.
+   */
+  cacheStats = (): EngineCacheStats | undefined => {
+    if (!this.decisions || !this.graphs) return undefined;
+
+    return { decisions: this.decisions.stats, roles: this.graphs.stats };
+  };
+
+  explain: AuthorizationCheck<Explanation> = async (
+    subject: Subject,
+    permission: string,
+    target: AuthorizationContext | BrandedResource = {},
+    context: AuthorizationContext = {}
+  ): Promise<Explanation> => {
+    const trace: DecisionTrace = {
+      roles: [],
+      denies: [],
+      grants: [],
+      policies: [],
+      inactive: []
+    };
+    const request = this.toRequest(permission, target, context);
+    await this.loadRoles(roleNames(subject));
+    const { authorization } = await this.evaluate(
+      this.resolveSubject(subject, request.scope),
+      request,
+      trace
     );
 
-    if (!matchedPermission) {
-      return {
-        allowed: false,
-        reason: 'Permission not found in subject roles/permissions',
-        permission
+    trace.inactive = this.traceInactive(subject, request);
+
+    return { authorization, trace };
+  };
+
+  /**
+   * Exports the subject's effective grants and denies, plus the patterns
+   * guarded by policies, for `SnapshotEvaluator` on a frontend. Neither the
+   * role graph nor policy code is included. Grants without wildcards that a
+   * deny fully covers are left out, and the snapshot is valid until the next
+   * assignment window starts or ends.
+   */
+  snapshot = async (subject: Subject, scope?: string): Promise<PermissionSnapshot> => {
+    await this.loadRoles(roleNames(subject));
+
+    const { roles } = this.resolveGraph(this.assignedRoles(subject, scope));
+    const unique = (rules: { pattern: PermissionName }[]) =>
+      [...new Set(rules.map((rule) => rule.pattern))].sort();
+
+    const denies = unique(this.resolveDenies(roles));
+    const grants = unique(this.resolveGrants(subject, roles)).filter(
+      (pattern) =>
+        this.grammar.validate(pattern) === undefined &&
+        !(
+          this.grammar.parse(pattern).every((segment) => segment.type === 'literal') &&
+          denies.some((deny) => this.grammar.match(deny, pattern))
+        )
+    );
+    const { separators, escape } = this.grammar;
+    const customSyntax =
+      escape !== defaultGrammar.escape ||
+      separators.join('') !== defaultGrammar.separators.join('');
+
+    const change = [
+      nextWindowChange(subject, this.now()),
+      ...this.elevations
+        .list(subject.id)
+        .map((elevation) => Date.parse(elevation.expiresAt))
+    ].reduce<number | undefined>(
+      (earliest, time) =>
+        time === undefined || (earliest !== undefined && earliest <= time)
+          ? earliest
+          : time,
+      undefined
+    );
+
+    return createSnapshot({
+      subject: subject.id,
+      ...(scope !== undefined && { scope }),
+      ...(change !== undefined && { validUntil: new Date(change).toISOString() }),
+      grants,
+      denies,
+      gated: unique(this.policies),
+      ...(customSyntax && { syntax: { separators: [...separators], escape } })
+    });
+  };
+
+  /**
+   * Grants a subject a higher-level role for a bounded time (break-glass). The
+   * role must outrank the subject's standing roles, the subject must pass
+   * `elevation.eligible` and a justification is required. Emits
+   * `elevationGranted`, and `elevationRevoked` once the elevation expires or is
+   * revoked. Elevations are kept in memory by this engine.
+   */
+  elevate = async (subject: Subject, request: ElevationRequest): Promise<Elevation> => {
+    const { role: name, duration, scope } = request;
+    const justification = request.justification?.trim();
+
+    if (!this.elevation) {
+      throw new ElevationError(name, 'Elevation is not enabled for this engine');
+    }
+
+    await this.loadRoles([name, ...roleNames(subject)]);
+
+    const role = this.roles.get(name);
+    const maxDuration = this.elevation.maxDuration ?? 60 * 60 * 1000;
+
+    if (!role) {
+      throw new RoleNotFoundError(name);
+    }
+
+    if (!justification) {
+      throw new ElevationError(
+        name,
+        `Elevation to role "${name}" requires a justification`
+      );
+    }
+
+    if (!(duration > 0 && duration <= maxDuration)) {
+      throw new ElevationError(
+        name,
+        `Elevation to role "${name}" must last between 1 and ${maxDuration} ms`
+      );
+    }
+
+    if (this.level(subject, scope, false) >= role.level) {
+      throw new ElevationError(
+        name,
+        `Role "${name}" does not outrank the standing roles of subject "${subject.id}"`
+      );
+    }
+
+    if (!(await this.elevation.eligible(subject, role, scope))) {
+      throw new ElevationError(
+        name,
+        `Subject "${subject.id}" is not eligible for elevation to role "${name}"`
+      );
+    }
+
+    const now = this.now();
+    const elevation: Elevation = {
+      id: crypto.randomUUID(),
+      subject: subject.id,
+      role: name,
+      ...(scope !== undefined && { scope }),
+      justification,
+      grantedAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + duration).toISOString()
+    };
+
+    this.elevations.add(elevation);
+    this.events.emit('elevationGranted', { elevation: { ...elevation } });
+
+    return { ...elevation };
+  };
+
+  /**
+   * Ends an elevation before it expires. Returns false for unknown or expired
+   * elevations.
+   */
+  revokeElevation = (id: string): boolean => {
+    const elevation = this.elevations.remove(id);
+    if (!elevation) return false;
+
+    this.events.emit('elevationRevoked', {
+      elevation: { ...elevation },
+      reason: 'revoked'
+    });
+
+    return true;
+  };
+
+  /**
+   * Active elevations, of one subject or of all of them.
+   */
+  listElevations = (subjectId?: string): Elevation[] => {
+    return this.elevations.list(subjectId).map((elevation) => ({ ...elevation }));
+  };
+
+  /**
+   * Highest level among the subject's roles in `scope`, including roles from
+   * active elevations unless `elevated` is false. Roles are fetched from storage
+   * first, so a role that is assigned but not yet loaded still counts.
+   */
+  levelOf = async (
+    subject: Subject,
+    scope?: string,
+    elevated = true
+  ): Promise<number> => {
+    await this.loadAssigned(subject, scope, elevated);
+    return this.level(subject, scope, elevated);
+  };
+
+  hasLevel = async (
+    subject: Subject,
+    level: number,
+    scope?: string
+  ): Promise<boolean> => {
+    return (await this.levelOf(subject, scope)) >= level;
+  };
+
+  canManage = async (
+    actor: Subject,
+    target: Subject,
+    scope?: string
+  ): Promise<boolean> => {
+    await Promise.all([
+      this.loadAssigned(actor, scope),
+      this.loadAssigned(target, scope)
+    ]);
+    return this.level(actor, scope) > this.level(target, scope);
+  };
+
+  canAssign = async (
+    actor: Subject,
+    roleName: string,
+    scope?: string
+  ): Promise<boolean> => {
+    await Promise.all([this.loadRoles([roleName]), this.loadAssigned(actor, scope)]);
+
+    const role = this.roles.get(roleName);
+    return role !== undefined && this.level(actor, scope) > role.level;
+  };
+
+  /**
+   * Builds a policy that only passes when the acting subject outranks the role
+   * being assigned, read from `context.role` unless a selector is given. The
+   * actor's level is taken in `context.scope`.
+   */
+  assignRolePolicy = (
+    selectRole: (context: AuthorizationContext) => unknown = (context) => context.role
+  ): PolicyFn => {
+    const canAssign: PolicyFn = async ({ subject, context }) => {
+      const roleName = selectRole(context);
+      return (
+        typeof roleName === 'string' &&
+        (await this.canAssign(subject, roleName, scopeOf(context)))
+      );
+    };
+
+    return canAssign;
+  };
+
+  private filterWith = async <R extends Resource>(
+    cache: Cache<Decision> | undefined,
+    subject: Subject,
+    action: string,
+    resources: R[],
+    context: AuthorizationContext
+  ): Promise<R[]> => {
+    const results = await this.authorize(
+      subject,
+      resources.map((resource) => this.resourceRequest(action, resource, context)),
+      cache
+    );
+
+    return resources.filter((_, i) => results[i].allowed);
+  };
+
+  private canManyWith = async (
+    cache: Cache<Decision> | undefined,
+    subject: Subject,
+    permissions: string[],
+    context: AuthorizationContext
+  ): Promise<Record<string, Authorization>> => {
+    const scope = scopeOf(context);
+    const results = await this.authorize(
+      subject,
+      permissions.map((permission) => ({ permissions: [permission], context, scope })),
+      cache
+    );
+
+    return Object.fromEntries(results.map((result) => [result.permission, result]));
+  };
+
+  /**
+   * Decides every request for one subject, resolving its roles once per scope
+   * and answering from `cache` when no context-dependent policy is involved.
+   * Each decision is passed to the audit sink.
+   */
+  private authorize = async (
+    subject: Subject,
+    requests: AuthorizationRequest[],
+    cache = this.decisions
+  ): Promise<Authorization[]> => {
+    const started = performance.now();
+    await this.loadRoles(roleNames(subject));
+
+    const resolved = new Map<string | undefined, ResolvedSubject>();
+    const resolve = (scope: string | undefined) => {
+      if (!resolved.has(scope)) resolved.set(scope, this.resolveSubject(subject, scope));
+      return resolved.get(scope)!;
+    };
+
+    return Promise.all(
+      requests.map(async (request) => {
+        const key = cache && this.decisionKey(subject, request);
+        const cached = key === undefined ? undefined : cache!.get(key);
+        const decision = cached ?? (await this.evaluate(resolve(request.scope), request));
+
+        if (key !== undefined && !cached) cache!.set(key, decision);
+        this.record(subject, request, decision, performance.now() - started, !!cached);
+
+        return { ...decision.authorization };
+      })
+    );
+  };
+
+  /**
+   * Hands a decision to the audit sink without waiting for it. Sink failures
+   * go to `onError` and never change the decision.
+   */
+  private record = (
+    subject: Subject,
+    request: AuthorizationRequest,
+    { authorization, grant, deny, policies = [] }: Decision,
+    latency: number,
+    cached: boolean
+  ): void => {
+    if (!this.audit) return;
+
+    const { sink, sample = 1, redact = redactContext, onError } = this.audit;
+    if (typeof sample === 'number' && Math.random() >= sample) return;
+
+    const report = (error: unknown) => onError?.(error);
+
+    try {
+      const record: AuditRecord = {
+        timestamp: new Date(this.now()).toISOString(),
+        subjectId: subject.id,
+        permission: authorization.permission,
+        allowed: authorization.allowed,
+        ...(authorization.reason !== undefined && { reason: authorization.reason }),
+        ...(grant && { grant: { pattern: grant.pattern, source: grant.source } }),
+        ...(deny && { deny: { pattern: deny.pattern, source: deny.source } }),
+        policies,
+        ...(authorization.policy !== undefined && { policy: authorization.policy }),
+        ...(authorization.elevation !== undefined && {
+          elevation: authorization.elevation
+        }),
+        ...(request.resource && { resource: request.resource }),
+        ...(request.scope !== undefined && { scope: request.scope }),
+        context: redact(request.context),
+        latency,
+        cached
       };
+
+      if (typeof sample === 'function' && !sample(record)) return;
+
+      Promise.resolve(sink.write(record)).catch(report);
+    } catch (error) {
+      report(error);
     }
+  };
+
+  private decisionKey = (
+    subject: Subject,
+    { permissions, scope, resource }: AuthorizationRequest
+  ): string | undefined => {
+    const contextual = this.policies.some(
+      ({ pattern, policy }) =>
+        isContextual(policy) &&
+        permissions.some((permission) => this.grammar.match(pattern, permission))
+    );
+
+    if (contextual) return undefined;
+
+    // Bounded assignments make the same subject resolve differently over time.
+    const windows = [...roleAssignments(subject), ...permissionAssignments(subject)]
+      .filter(isBounded)
+      .map((assignment) => windowStatus(assignment, this.now()));
+
+    const elevations = this.elevations.list(subject.id).map((elevation) => elevation.id);
+
+    try {
+      return JSON.stringify([
+        this.version,
+        subject,
+        windows,
+        elevations,
+        permissions,
+        scope,
+        resource
+      ]);
+    } catch {
+      return undefined;
+    }
+  };
+
+  /**
+   * Drops cached decisions and role graphs after a configuration change. Keys
+   * carry the configuration version, so session caches go stale as well.
+   */
+  private invalidate = (): void => {
+    this.version++;
+    this.decisions?.clear();
+    this.graphs?.clear();
+  };
+
+  private toRequest = (
+    action: string,
+    target: AuthorizationContext | BrandedResource,
+    context: AuthorizationContext
+  ): AuthorizationRequest => {
+    return isResource(target)
+      ? this.resourceRequest(action, target, context)
+      : { permissions: [action], context: target, scope: scopeOf(target) };
+  };
+
+  private resourceRequest = (
+    action: string,
+    resource: Resource,
+    context: AuthorizationContext
+  ): AuthorizationRequest => ({
+    permissions: resourcePermissions(this.grammar, action, resource),
+    context: resourceContext(resource, context),
+    resource,
+    scope: resource.scope ?? scopeOf(context)
+  });
 
-    const policy = this.policies.get(permission);
+  private fetchRoles = async (
+    storage: StorageAdapter,
+    names: string[]
+  ): Promise<Role[]> => {
+    if (names.length === 0) return [];
+    if (storage.getRoleGraph) return storage.getRoleGraph(names);
+
+    const roles = await Promise.all(names.map((name) => storage.getRole(name)));
+    return roles.filter((role): role is Role => role !== undefined);
+  };
+
+  private scopeChain = (scope: string | undefined): string[] => {
+    const chain: string[] = [];
+
+    while (scope !== undefined && !chain.includes(scope)) {
+      chain.push(scope);
+      scope = this.scopes.get(scope) ?? this.scopeParent(scope);
+    }
+
+    return chain;
+  };
+
+  private level = (subject: Subject, scope?: string, elevated = true): number => {
+    return this.resolveRoles(this.assignedRoles(subject, scope, elevated)).reduce(
+      (level, role) => Math.max(level, role.level),
+      -Infinity
+    );
+  };
+
+  private loadAssigned = (
+    subject: Subject,
+    scope?: string,
+    elevated = true
+  ): Promise<void> => {
+    return this.loadRoles(
+      this.assignedRoles(subject, scope, elevated).map((entry) => entry.role)
+    );
+  };
+
+  /**
+   * Unscoped assignments apply everywhere; scoped ones only within their scope
+   * and the scopes nested under it. Assignments outside their time window are
+   * ignored. Active elevations follow the standing assignments.
+   */
+  private assignedRoles = (
+    subject: Subject,
+    scope?: string,
+    elevated = true
+  ): Assignment[] => {
+    const chain = this.scopeChain(scope);
+    const now = this.now();
+    const elevations = elevated ? this.elevations.list(subject.id) : [];
+
+    return [
+      ...roleAssignments(subject).filter(
+        (entry) => windowStatus(entry, now) === 'active'
+      ),
+      ...elevations.map(
+        (elevation): Assignment => ({
+          role: elevation.role,
+          ...(elevation.scope !== undefined && { scope: elevation.scope }),
+          elevation: elevation.id
+        })
+      )
+    ].filter((entry) => entry.scope === undefined || chain.includes(entry.scope));
+  };
+
+  private directPermissions = (subject: Subject): PermissionName[] => {
+    const now = this.now();
+
+    return permissionAssignments(subject)
+      .filter((entry) => windowStatus(entry, now) === 'active')
+      .map((entry) => entry.permission);
+  };
+
+  /**
+   * Grants of assignments outside their time window that would have matched
+   * the request.
+   */
+  private traceInactive = (
+    subject: Subject,
+    { permissions, scope }: AuthorizationRequest
+  ): InactiveGrantTrace[] => {
+    const now = this.now();
+    const chain = this.scopeChain(scope);
+    const inactive: InactiveGrantTrace[] = [];
+
+    const push = (
+      pattern: PermissionName,
+      source: RuleSource,
+      entry: RoleAssignment | PermissionAssignment
+    ) => {
+      const status = windowStatus(entry, now);
+
+      if (status === 'active') return;
+      if (!permissions.some((permission) => this.grammar.match(pattern, permission))) {
+        return;
+      }
+
+      inactive.push({
+        pattern,
+        source,
+        ...('scope' in entry && entry.scope !== undefined && { scope: entry.scope }),
+        status,
+        ...(entry.validFrom !== undefined && { validFrom: formatBound(entry.validFrom) }),
+        ...(entry.validUntil !== undefined && {
+          validUntil: formatBound(entry.validUntil)
+        })
+      });
+    };
+
+    roleAssignments(subject)
+      .filter((entry) => entry.scope === undefined || chain.includes(entry.scope))
+      .forEach((entry) =>
+        this.resolveRoles([{ role: entry.role }]).forEach((role) =>
+          role.permissions.forEach((pattern) =>
+            push(pattern, { type: 'role', role: role.name }, entry)
+          )
+        )
+      );
+
+    permissionAssignments(subject).forEach((entry) =>
+      push(entry.permission, { type: 'subject' }, entry)
+    );
+
+    return inactive;
+  };
+
+  private resolveSubject = (subject: Subject, scope?: string): ResolvedSubject => {
+    const { roles, origins } = this.resolveGraph(this.assignedRoles(subject, scope));
+    const direct = new PermissionIndex<Rule>(this.grammar);
+
+    this.directPermissions(subject)
+      .filter((pattern) => this.grammar.validate(pattern) === undefined)
+      .forEach((pattern) =>
+        direct.add(pattern, { pattern, source: { type: 'subject' } })
+      );
+
+    const indexesOf = (list: Role[]) =>
+      list.flatMap((role) => this.indexes.get(role.name) ?? []);
+    const elevated = roles.filter((role) => origins.get(role.name)?.elevation);
+    const standing = roles.filter((role) => !elevated.includes(role));
+
+    // Standing grants are tried first, so a permission only counts as granted
+    // through an elevation when no standing role or permission grants it.
+    return {
+      subject,
+      roles,
+      origins,
+      elevations: new Map(
+        this.elevations.list(subject.id).map((elevation) => [elevation.id, elevation])
+      ),
+      grants: [
+        ...indexesOf(standing).map((index) => index.grants),
+        direct,
+        ...indexesOf(elevated).map((index) => index.grants)
+      ],
+      denies: indexesOf(roles).map((index) => index.denies)
+    };
+  };
+
+  private evaluate = async (
+    { subject, roles, origins, elevations, denies, grants }: ResolvedSubject,
+    { permissions, context, resource }: AuthorizationRequest,
+    trace?: DecisionTrace
+  ): Promise<Decision> => {
+    const permission = permissions[0];
+    const target = resource && { resource };
+
+    if (trace) {
+      trace.roles = roles.map((role) => {
+        const origin = origins.get(role.name);
 
-    if (policy) {
-      if (await policy({ subject, context })) {
         return {
-          allowed: true,
-          permission
+          name: role.name,
+          level: role.level,
+          path: origin?.path ?? [role.name],
+          ...(origin?.scope !== undefined && { scope: origin.scope }),
+          ...(origin?.elevation !== undefined && { elevation: origin.elevation })
         };
-      }
+      });
+    }
+
+    const deny = trace
+      ? this.traceRules(this.resolveDenies(roles), permissions, trace.denies)
+      : this.findRule(denies, permissions);
 
+    if (deny) {
       return {
-        allowed: false,
-        reason: 'Access denied by policy',
-        permission
+        authorization: {
+          allowed: false,
+          reason: `Permission denied by ${describeSource(deny.source)} (deny pattern "${deny.pattern}")`,
+          permission,
+          ...target
+        },
+        deny
       };
     }
 
+    const grant = trace
+      ? this.traceRules(
+          this.resolveGrants(subject, roles, origins),
+          permissions,
+          trace.grants
+        )
+      : this.findRule(grants, permissions);
+
+    if (!grant) {
+      return {
+        authorization: {
+          allowed: false,
+          reason: 'Permission not found in subject roles/permissions',
+          permission,
+          ...target
+        }
+      };
+    }
+
+    const elevation =
+      grant.source.type === 'role'
+        ? elevations.get(origins.get(grant.source.role)?.elevation ?? '')
+        : undefined;
+    const via = elevation && { elevation: elevation.id };
+    const policyContext = elevation
+      ? {
+          ...context,
+          elevation: {
+            id: elevation.id,
+            role: elevation.role,
+            justification: elevation.justification,
+            expiresAt: elevation.expiresAt
+          } satisfies ElevationContext
+        }
+      : context;
+
+    const policies = this.policies.filter((entry) =>
+      permissions.some((candidate) => this.grammar.match(entry.pattern, candidate))
+    );
+
+    const evaluated: string[] = [];
+
+    for (const { pattern, policy } of policies) {
+      const evaluation = await evaluatePolicy(policy, {
+        subject,
+        context: policyContext
+      });
+
+      evaluated.push(describePolicy(policy));
+      trace?.policies.push({ pattern, policy: describePolicy(policy), ...evaluation });
+
+      if (!evaluation.passed) {
+        return {
+          authorization: {
+            allowed: false,
+            reason: 'Access denied by policy',
+            permission,
+            policy: evaluation.failed,
+            ...target,
+            ...via
+          },
+          grant,
+          policies: evaluated
+        };
+      }
+
+      if (this.policyStrategy === 'first') {
+        break;
+      }
+    }
+
     return {
-      allowed: true,
-      permission
+      authorization: { allowed: true, permission, ...target, ...via },
+      grant,
+      policies: evaluated
     };
   };
 
-  private resolvePermissions = (subject: Subject): Set<PermissionName> => {
-    const prms = new Set<PermissionName>(subject.permissions);
+  private findRule = (
+    indexes: PermissionIndex<Rule>[],
+    permissions: PermissionName[]
+  ): Rule | undefined => {
+    for (const index of indexes) {
+      const rule = index.match(...permissions);
+      if (rule) return rule;
+    }
+
+    return undefined;
+  };
+
+  private traceRules = (
+    rules: Rule[],
+    permissions: PermissionName[],
+    tested: RuleTrace[]
+  ): Rule | undefined => {
+    let found: Rule | undefined;
 
-    const resolvedRoles = this.resolveRoles(subject.roles);
+    for (const rule of rules) {
+      const matched = permissions.some((permission) =>
+        this.grammar.match(rule.pattern, permission)
+      );
+      tested.push({ ...rule, matched });
+      found ??= matched ? rule : undefined;
+    }
+
+    return found;
+  };
 
-    for (const role of resolvedRoles) {
-      role.permissions.forEach((p) => prms.add(p));
+  private compileRole = (role: Role): RuleIndexes => {
+    const source: RuleSource = { type: 'role', role: role.name };
+    const grants = new PermissionIndex<Rule>(this.grammar);
+    const denies = new PermissionIndex<Rule>(this.grammar);
+
+    role.permissions.forEach((pattern) => grants.add(pattern, { pattern, source }));
+    role.denies?.forEach((pattern) => denies.add(pattern, { pattern, source }));
+
+    return { grants, denies };
+  };
+
+  /**
+   * Grants in the order `resolveSubject` tries them: standing roles, direct
+   * permissions, then roles that only come from an elevation.
+   */
+  private resolveGrants = (
+    subject: Subject,
+    roles: Role[],
+    origins?: Map<string, RoleOrigin>
+  ): Rule[] => {
+    const fromRoles = (list: Role[]) =>
+      list.flatMap((role) =>
+        role.permissions.map(
+          (pattern): Rule => ({ pattern, source: { type: 'role', role: role.name } })
+        )
+      );
+    const elevated = roles.filter((role) => origins?.get(role.name)?.elevation);
+
+    return [
+      ...fromRoles(roles.filter((role) => !elevated.includes(role))),
+      ...this.directPermissions(subject).map(
+        (pattern): Rule => ({ pattern, source: { type: 'subject' } })
+      ),
+      ...fromRoles(elevated)
+    ];
+  };
+
+  private resolveDenies = (roles: Role[]): Rule[] => {
+    const rules: Rule[] = [];
+
+    for (const role of roles) {
+      role.denies?.forEach((pattern) =>
+        rules.push({ pattern, source: { type: 'role', role: role.name } })
+      );
     }
 
-    subject.permissions?.forEach((p: string) => prms.add(p));
+    return rules;
+  };
+
+  private resolveGraph = (assignments: Assignment[]): RoleGraph => {
+    const key = this.graphs && JSON.stringify([this.version, assignments]);
+    const cached = key === undefined ? undefined : this.graphs!.get(key);
+
+    if (cached) return cached;
+
+    const origins = new Map<string, RoleOrigin>();
+    const graph = { roles: this.resolveRoles(assignments, origins), origins };
 
-    return prms;
+    if (key !== undefined) this.graphs!.set(key, graph);
+
+    return graph;
   };
 
-  private resolveRoles(roleNames: string[]): Role[] {
+  private resolveRoles(
+    assignments: Assignment[],
+    origins?: Map<string, RoleOrigin>
+  ): Role[] {
     const visited = new Set<string>();
     const roles: Role[] = [];
 
-    const visit = (name: string) => {
+    const visit = (name: string, path: string[], origin: Omit<RoleOrigin, 'path'>) => {
       if (visited.has(name)) return;
       visited.add(name);
 
       const role = this.roles.get(name);
       if (!role) return;
 
-      role.inherits?.forEach(visit);
+      origins?.set(name, { path, ...origin });
+      role.inherits?.forEach((parent) => visit(parent, [...path, parent], origin));
       roles.push(role);
     };
 
-    roleNames.forEach(visit);
+    assignments.forEach(({ role, scope, elevation }) =>
+      visit(role, [role], {
+        ...(scope !== undefined && { scope }),
+        ...(elevation !== undefined && { elevation })
+      })
+    );
 
     return roles.sort((a, b) => b.level - a.level);
   }
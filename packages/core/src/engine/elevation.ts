@@ -0,0 +1,117 @@
+import { Role, Subject } from '../types';
+import { PolicyFn } from '../policy';
+
+export type ElevationRequest = {
+  role: string;
+  /** Why the elevation is needed, e.g. an incident reference. Required. */
+  justification: string;
+  /** Milliseconds until the elevation is revoked. */
+  duration: number;
+  scope?: string;
+};
+
+/**
+ * A temporary break-glass assignment. While active, the role applies on top
+ * of the subject's standing roles.
+ */
+export type Elevation = {
+  id: string;
+  subject: string;
+  role: string;
+  scope?: string;
+  justification: string;
+  grantedAt: string;
+  expiresAt: string;
+};
+
+export type ElevationOptions = {
+  /** Decides whether a subject may elevate to a role. */
+  eligible: (subject: Subject, role: Role, scope?: string) => boolean | Promise<boolean>;
+  /** Longest elevation allowed, in milliseconds. Defaults to one hour. */
+  maxDuration?: number;
+};
+
+export type ElevationRevocation = {
+  elevation: Elevation;
+  reason: 'revoked' | 'expired';
+};
+
+/**
+ * What policies see as `context.elevation` when the permission is granted
+ * through an elevated role rather than a standing one.
+ */
+export type ElevationContext = Pick<
+  Elevation,
+  'id' | 'role' | 'justification' | 'expiresAt'
+>;
+
+/**
+ * A policy that refuses permissions granted through break-glass elevation, for
+ * actions too sensitive to allow outside standing roles. The condition
+ * `!context.elevation` is equivalent.
+ */
+export const refuseElevated: PolicyFn = ({ context }) => context.elevation === undefined;
+
+/**
+ * Active elevations. Expired ones are dropped, and reported through `expired`,
+ * whenever elevations are read and when their duration runs out.
+ */
+export class ElevationRegistry {
+  private elevations = new Map<string, Elevation>();
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(
+    private now: () => number,
+    private expired: (elevation: Elevation) => void
+  ) {}
+
+  add = (elevation: Elevation): void => {
+    this.elevations.set(elevation.id, elevation);
+    this.schedule();
+  };
+
+  remove = (id: string): Elevation | undefined => {
+    const elevation = this.elevations.get(id);
+    this.elevations.delete(id);
+
+    return elevation;
+  };
+
+  list = (subjectId?: string): Elevation[] => {
+    this.prune();
+
+    return [...this.elevations.values()].filter(
+      (elevation) => subjectId === undefined || elevation.subject === subjectId
+    );
+  };
+
+  private prune = (): void => {
+    const now = this.now();
+
+    for (const elevation of [...this.elevations.values()]) {
+      if (Date.parse(elevation.expiresAt) <= now) {
+        this.elevations.delete(elevation.id);
+        this.expired(elevation);
+      }
+    }
+
+    this.schedule();
+  };
+
+  /**
+   * Arms one timer for the earliest expiry. Timers may fire before `now`
+   * reaches it, so `prune` arms the next one until nothing is left.
+   */
+  private schedule = (): void => {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+
+    const next = Math.min(
+      ...[...this.elevations.values()].map(({ expiresAt }) => Date.parse(expiresAt))
+    );
+    if (next === Infinity) return;
+
+    this.timer = setTimeout(this.prune, Math.max(next - this.now(), 0));
+    (this.timer as { unref?: () => void }).unref?.();
+  };
+}
@@ -1 +1,13 @@
 export * from './RBACEngine';
+export * from './trace';
+export { isResource, resource } from './resource';
+export type { BrandedResource } from './resource';
+export { copyRole } from './role';
+export { refuseElevated } from './elevation';
+export type {
+  Elevation,
+  ElevationContext,
+  ElevationOptions,
+  ElevationRequest,
+  ElevationRevocation
+} from './elevation';
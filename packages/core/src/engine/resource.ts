@@ -0,0 +1,60 @@
+import { PermissionName, Resource } from '../types';
+import { AuthorizationContext } from '../policy';
+import { PermissionGrammar } from '../permissions';
+
+export const RESOURCE: unique symbol = Symbol.for('unirbac.resource');
+
+/**
+ * A resource built with `resource()`. Only these are accepted where a check
+ * takes a resource, so a plain object cannot be mistaken for one.
+ */
+export type BrandedResource<R extends Resource = Resource> = R & {
+  readonly [RESOURCE]: true;
+};
+
+/**
+ * Marks `fields` as a resource, so `can(subject, action, resource)` checks
+ * `action` on it. Objects not built here are always read as an authorization
+ * context, whatever their shape. The mark does not survive spreading.
+ */
+export const resource = <R extends Resource>(fields: R): BrandedResource<R> => {
+  return Object.defineProperty({ ...fields }, RESOURCE, {
+    value: true
+  }) as BrandedResource<R>;
+};
+
+export const isResource = (value: unknown): value is BrandedResource => {
+  return typeof value === 'object' && value !== null && RESOURCE in value;
+};
+
+/**
+ * Permissions that authorize `action` on a resource, most specific first:
+ * `document:123:edit` for the instance and `document:edit` for the type.
+ */
+export const resourcePermissions = (
+  grammar: PermissionGrammar,
+  action: string,
+  resource: Resource
+): PermissionName[] => {
+  const type = grammar.join([resource.type, action]);
+
+  return resource.id === undefined
+    ? [type]
+    : [grammar.join([resource.type, resource.id, action]), type];
+};
+
+/**
+ * Exposes the resource to policies as `context.resource`, with its attributes
+ * flattened next to `type` and `id` so conditions can read `resource.ownerId`.
+ */
+export const resourceContext = (
+  resource: Resource,
+  context: AuthorizationContext
+): AuthorizationContext => ({
+  ...context,
+  resource: {
+    ...resource.attributes,
+    type: resource.type,
+    ...(resource.id !== undefined && { id: resource.id })
+  }
+});
@@ -0,0 +1,12 @@
+import { Role } from '../types';
+
+/**
+ * Copies a role together with its pattern lists, so callers can't change a
+ * registered role through the copy.
+ */
+export const copyRole = (role: Role): Role => ({
+  ...role,
+  permissions: [...role.permissions],
+  ...(role.inherits && { inherits: [...role.inherits] }),
+  ...(role.denies && { denies: [...role.denies] })
+});
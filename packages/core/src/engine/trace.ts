@@ -0,0 +1,50 @@
+import { PermissionName } from '../types';
+
+export type RuleSource = { type: 'role'; role: string } | { type: 'subject' };
+
+export type RuleTrace = {
+  pattern: PermissionName;
+  source: RuleSource;
+  matched: boolean;
+};
+
+export type RoleTrace = {
+  name: string;
+  level: number;
+  path: string[];
+  scope?: string;
+  /** Id of the elevation the role comes from, when it is not a standing role. */
+  elevation?: string;
+};
+
+export type PolicyTrace = {
+  pattern: string;
+  policy: string;
+  passed: boolean;
+  failed?: string;
+};
+
+/**
+ * A grant that would have matched if its assignment were not outside its
+ * `validFrom` / `validUntil` window.
+ */
+export type InactiveGrantTrace = {
+  pattern: PermissionName;
+  source: RuleSource;
+  scope?: string;
+  status: 'pending' | 'expired';
+  validFrom?: string;
+  validUntil?: string;
+};
+
+export type DecisionTrace = {
+  roles: RoleTrace[];
+  denies: RuleTrace[];
+  grants: RuleTrace[];
+  policies: PolicyTrace[];
+  inactive: InactiveGrantTrace[];
+};
+
+export const describeSource = (source: RuleSource): string => {
+  return source.type === 'role' ? `role "${source.role}"` : 'subject permissions';
+};
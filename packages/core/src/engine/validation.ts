@@ -0,0 +1,93 @@
+import { Role } from '../types';
+import { PermissionGrammar } from '../permissions';
+import { RoleIssue } from '../errors';
+
+const findCycles = (roles: Map<string, Role>): string[][] => {
+  const cycles: string[][] = [];
+  const done = new Set<string>();
+  const stack: string[] = [];
+
+  const visit = (name: string) => {
+    const index = stack.indexOf(name);
+
+    if (index !== -1) {
+      cycles.push([...stack.slice(index), name]);
+      return;
+    }
+
+    if (done.has(name)) return;
+
+    const role = roles.get(name);
+    if (!role) return;
+
+    stack.push(name);
+    role.inherits?.forEach(visit);
+    stack.pop();
+    done.add(name);
+  };
+
+  [...roles.keys()].forEach(visit);
+
+  return cycles;
+};
+
+export const validateRoles = (
+  roles: Map<string, Role>,
+  grammar: PermissionGrammar,
+  only?: string
+): RoleIssue[] => {
+  const issues: RoleIssue[] = [];
+
+  for (const cycle of findCycles(roles)) {
+    if (only === undefined || cycle.includes(only)) {
+      issues.push({
+        type: 'cycle',
+        role: cycle[0],
+        message: `Inheritance cycle: ${cycle.join(' -> ')}`
+      });
+    }
+  }
+
+  // With `only`, roles inheriting from it are checked against it as well, since
+  // changing its level can invert their inheritance.
+  const concerns = (role: Role, parent: string) =>
+    only === undefined || role.name === only || parent === only;
+
+  for (const role of roles.values()) {
+    for (const name of role.inherits ?? []) {
+      if (!concerns(role, name)) continue;
+
+      const parent = roles.get(name);
+
+      if (!parent) {
+        issues.push({
+          type: 'unknown-role',
+          role: role.name,
+          message: `Role "${role.name}" inherits unknown role "${name}"`
+        });
+      } else if (role.level < parent.level) {
+        issues.push({
+          type: 'level-inversion',
+          role: role.name,
+          message: `Role "${role.name}" (level ${role.level}) inherits higher-level role "${name}" (level ${parent.level})`
+        });
+      }
+    }
+
+    if (only !== undefined && role.name !== only) continue;
+
+    for (const grant of role.permissions) {
+      const deny = role.denies?.find((pattern) => grammar.match(pattern, grant));
+
+      if (deny !== undefined) {
+        issues.push({
+          type: 'grant-deny-conflict',
+          role: role.name,
+          message: `Role "${role.name}" grants "${grant}" but denies it with "${deny}"`
+        });
+      }
+    }
+  }
+
+  return issues;
+};
@@ -0,0 +1,61 @@
+import {
+  AssignmentWindow,
+  PermissionAssignment,
+  RoleAssignment,
+  Subject
+} from '../types';
+
+export type WindowStatus = 'active' | 'pending' | 'expired';
+
+const timeOf = (value: Date | string): number => {
+  return value instanceof Date ? value.getTime() : Date.parse(value);
+};
+
+/**
+ * Unparseable bounds never pass, so a malformed window keeps the assignment
+ * inactive instead of making it permanent.
+ */
+export const windowStatus = (
+  { validFrom, validUntil }: AssignmentWindow,
+  now: number
+): WindowStatus => {
+  if (validFrom !== undefined && !(timeOf(validFrom) <= now)) return 'pending';
+  if (validUntil !== undefined && !(now < timeOf(validUntil))) return 'expired';
+
+  return 'active';
+};
+
+export const isBounded = ({ validFrom, validUntil }: AssignmentWindow): boolean => {
+  return validFrom !== undefined || validUntil !== undefined;
+};
+
+export const roleAssignments = (subject: Subject): RoleAssignment[] => {
+  return subject.roles.map((entry) =>
+    typeof entry === 'string' ? { role: entry } : entry
+  );
+};
+
+export const permissionAssignments = (subject: Subject): PermissionAssignment[] => {
+  return (subject.permissions ?? []).map((entry) =>
+    typeof entry === 'string' ? { permission: entry } : entry
+  );
+};
+
+/**
+ * The next time after `now` at which one of the subject's assignments starts
+ * or ends, when there is one.
+ */
+export const nextWindowChange = (subject: Subject, now: number): number | undefined => {
+  const bounds = [...roleAssignments(subject), ...permissionAssignments(subject)]
+    .flatMap(({ validFrom, validUntil }) => [validFrom, validUntil])
+    .flatMap((bound) => (bound === undefined ? [] : [timeOf(bound)]))
+    .filter((time) => time > now);
+
+  return bounds.length > 0 ? Math.min(...bounds) : undefined;
+};
+
+export const formatBound = (value: Date | string): string => {
+  return value instanceof Date && !Number.isNaN(value.getTime())
+    ? value.toISOString()
+    : String(value);
+};
@@ -0,0 +1,84 @@
+export type DocumentIssue = {
+  path: string;
+  message: string;
+};
+
+export type RoleIssueType =
+  | 'cycle'
+  | 'unknown-role'
+  | 'level-inversion'
+  | 'grant-deny-conflict';
+
+export type RoleIssue = {
+  type: RoleIssueType;
+  role: string;
+  message: string;
+};
+
+export class DocumentValidationError extends Error {
+  readonly issues: DocumentIssue[];
+
+  constructor(issues: DocumentIssue[]) {
+    super(
+      `Invalid policy document:\n${issues
+        .map((issue) => `  ${issue.path || '/'}: ${issue.message}`)
+        .join('\n')}`
+    );
+    this.name = 'DocumentValidationError';
+    this.issues = issues;
+  }
+}
+
+export class ConditionSyntaxError extends Error {
+  readonly source: string;
+  readonly position: number;
+
+  constructor(message: string, source: string, position: number) {
+    super(`${message} at position ${position} in condition "${source}"`);
+    this.name = 'ConditionSyntaxError';
+    this.source = source;
+    this.position = position;
+  }
+}
+
+export class RoleValidationError extends Error {
+  readonly issues: RoleIssue[];
+
+  constructor(issues: RoleIssue[]) {
+    super(
+      `Invalid role configuration:\n${issues.map((issue) => `  ${issue.message}`).join('\n')}`
+    );
+    this.name = 'RoleValidationError';
+    this.issues = issues;
+  }
+}
+
+export class InvalidPermissionError extends Error {
+  readonly pattern: string;
+
+  constructor(pattern: string, message: string) {
+    super(message);
+    this.name = 'InvalidPermissionError';
+    this.pattern = pattern;
+  }
+}
+
+export class RoleNotFoundError extends Error {
+  readonly role: string;
+
+  constructor(role: string) {
+    super(`Role "${role}" does not exist`);
+    this.name = 'RoleNotFoundError';
+    this.role = role;
+  }
+}
+
+export class ElevationError extends Error {
+  readonly role: string;
+
+  constructor(role: string, message: string) {
+    super(message);
+    this.name = 'ElevationError';
+    this.role = role;
+  }
+}
@@ -0,0 +1,30 @@
+export type Listener<T> = (payload: T) => void;
+
+/**
+ * Minimal synchronous event emitter. Listeners run in subscription order and
+ * an exception thrown by a listener propagates to the code that emitted.
+ */
+export class Emitter<Events extends Record<string, unknown>> {
+  private listeners = new Map<keyof Events, Set<Listener<never>>>();
+
+  /** Subscribes to an event and returns a function that unsubscribes. */
+  on = <E extends keyof Events>(
+    event: E,
+    listener: Listener<Events[E]>
+  ): (() => void) => {
+    const listeners = this.listeners.get(event) ?? new Set();
+    listeners.add(listener);
+    this.listeners.set(event, listeners);
+
+    return () => this.off(event, listener);
+  };
+
+  off = <E extends keyof Events>(event: E, listener: Listener<Events[E]>): void => {
+    this.listeners.get(event)?.delete(listener);
+  };
+
+  emit = <E extends keyof Events>(event: E, payload: Events[E]): void => {
+    const listeners = this.listeners.get(event) as Set<Listener<Events[E]>> | undefined;
+    [...(listeners ?? [])].forEach((listener) => listener(payload));
+  };
+}
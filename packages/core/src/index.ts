@@ -1,3 +1,12 @@
 export * from './types';
 export * from './policy';
 export * from './engine';
+export * from './errors';
+export * from './document';
+export * from './conditions';
+export * from './tenants';
+export * from './adapters';
+export * from './cache';
+export * from './events';
+export * from './audit';
+export * from './snapshot';
@@ -0,0 +1,141 @@
+import { PermissionName } from '../types';
+
+import { PermissionGrammar, defaultGrammar } from './grammar';
+
+type Entry<T> = {
+  order: number;
+  value: T;
+};
+
+type Node<T> = {
+  children: Map<string, Node<T>>;
+  wildcard?: Node<T>;
+  globs: Map<string, { regex: RegExp; node: Node<T> }>;
+  rest: Entry<T>[];
+  entries: Entry<T>[];
+};
+
+const createNode = <T>(): Node<T> => ({
+  children: new Map(),
+  globs: new Map(),
+  rest: [],
+  entries: []
+});
+
+/**
+ * Segment trie over granted patterns. Lookups follow the literal, `*`, glob and
+ * `**` branches for each segment, so they cost time proportional to the
+ * permission depth instead of the number of patterns. Results match
+ * `PermissionGrammar.match`.
+ */
+export class PermissionIndex<T> {
+  private root: Node<T> = createNode();
+  private exact = new Map<PermissionName, Entry<T>[]>();
+  private count = 0;
+
+  constructor(private grammar: PermissionGrammar = defaultGrammar) {}
+
+  get size(): number {
+    return this.count;
+  }
+
+  add = (pattern: PermissionName, value: T): void => {
+    const segments = this.grammar.parse(pattern);
+    const entry = { order: this.count++, value };
+
+    this.exact.set(pattern, [...(this.exact.get(pattern) ?? []), entry]);
+
+    let node = this.root;
+
+    for (const segment of segments) {
+      switch (segment.type) {
+        case 'rest':
+          node.rest.push(entry);
+          return;
+        case 'any':
+          node.wildcard ??= createNode();
+          node = node.wildcard;
+          break;
+        case 'glob': {
+          let glob = node.globs.get(segment.source);
+
+          if (!glob) {
+            glob = { regex: segment.regex, node: createNode() };
+            node.globs.set(segment.source, glob);
+          }
+
+          node = glob.node;
+          break;
+        }
+        case 'literal': {
+          let child = node.children.get(segment.value);
+
+          if (!child) {
+            child = createNode();
+            node.children.set(segment.value, child);
+          }
+
+          node = child;
+          break;
+        }
+      }
+    }
+
+    node.entries.push(entry);
+  };
+
+  /**
+   * Returns the earliest-added value matching any of the given permissions.
+   */
+  match = (...permissions: PermissionName[]): T | undefined => {
+    const found = new Set<Entry<T>>();
+    permissions.forEach((permission) => this.collect(permission, found));
+
+    return this.sorted(found)[0];
+  };
+
+  matchAll = (permission: PermissionName): T[] => {
+    const found = new Set<Entry<T>>();
+    this.collect(permission, found);
+
+    return this.sorted(found);
+  };
+
+  private sorted = (found: Set<Entry<T>>): T[] => {
+    return [...found].sort((a, b) => a.order - b.order).map((entry) => entry.value);
+  };
+
+  private collect = (permission: PermissionName, found: Set<Entry<T>>): void => {
+    this.exact.get(permission)?.forEach((entry) => found.add(entry));
+    const parts = this.grammar.split(permission);
+
+    const visit = (node: Node<T>, depth: number) => {
+      node.rest.forEach((entry) => found.add(entry));
+
+      if (depth >= parts.length) {
+        if (depth === parts.length) {
+          node.entries.forEach((entry) => found.add(entry));
+        }
+
+        // Like PermissionGrammar.match, a trailing `*` may run past the end when `**` follows.
+        if (node.wildcard) visit(node.wildcard, depth + 1);
+        return;
+      }
+
+      const part = parts[depth];
+
+      if (part) {
+        const child = node.children.get(part);
+        if (child) visit(child, depth + 1);
+
+        for (const glob of node.globs.values()) {
+          if (glob.regex.test(part)) visit(glob.node, depth + 1);
+        }
+      }
+
+      if (node.wildcard) visit(node.wildcard, depth + 1);
+    };
+
+    visit(this.root, 0);
+  };
+}
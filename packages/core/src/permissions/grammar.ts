@@ -0,0 +1,254 @@
+import { PermissionName } from '../types';
+import { InvalidPermissionError } from '../errors';
+
+export type PermissionSyntax = {
+  separators?: string[];
+  escape?: string;
+};
+
+export type PatternSegment =
+  | { type: 'literal'; value: string }
+  | { type: 'any' }
+  | { type: 'rest' }
+  | { type: 'glob'; source: string; regex: RegExp };
+
+type Token =
+  | { type: 'text'; value: string }
+  | { type: 'star' }
+  | { type: 'alternation'; options: string[] };
+
+const RESERVED = ['*', '{', '}', ','];
+
+const escapeRegex = (value: string): string =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Permission grammar shared by pattern parsing and permission splitting.
+ * Segments are separated by any of `separators`; inside a segment `*` matches
+ * any characters, `{a,b}` matches one of the alternatives and the escape
+ * character makes the next character literal. A whole `*` segment matches one
+ * segment and a trailing `**` matches any remaining segments.
+ */
+export class PermissionGrammar {
+  readonly separators: string[];
+  readonly escape: string;
+  private cache = new Map<string, PatternSegment[]>();
+
+  constructor(syntax: PermissionSyntax = {}) {
+    this.separators = syntax.separators ?? [':', '.'];
+    this.escape = syntax.escape ?? '\\';
+
+    for (const char of [...this.separators, this.escape]) {
+      if (char.length !== 1 || RESERVED.includes(char) || /\s/.test(char)) {
+        throw new Error(`Invalid permission syntax character "${char}"`);
+      }
+    }
+
+    if (this.separators.includes(this.escape)) {
+      throw new Error(`Permission escape "${this.escape}" must not be a separator`);
+    }
+  }
+
+  split = (permission: PermissionName): string[] => {
+    const parts: string[] = [''];
+
+    for (let i = 0; i < permission.length; i++) {
+      const char = permission[i];
+
+      if (char === this.escape && i + 1 < permission.length) {
+        parts[parts.length - 1] += permission[++i];
+      } else if (this.separators.includes(char)) {
+        parts.push('');
+      } else {
+        parts[parts.length - 1] += char;
+      }
+    }
+
+    return parts;
+  };
+
+  join = (segments: string[]): PermissionName => {
+    const special = [...this.separators, this.escape];
+
+    return segments
+      .map((segment) =>
+        [...segment]
+          .map((char) => (special.includes(char) ? `${this.escape}${char}` : char))
+          .join('')
+      )
+      .join(this.separators[0]);
+  };
+
+  parse = (pattern: string): PatternSegment[] => {
+    const cached = this.cache.get(pattern);
+    if (cached) return cached;
+
+    const fail = (message: string): never => {
+      throw new InvalidPermissionError(
+        pattern,
+        `Permission pattern "${pattern}" ${message}`
+      );
+    };
+
+    if (pattern.length === 0) {
+      throw new InvalidPermissionError(pattern, 'Permission pattern must not be empty');
+    }
+
+    if (/\s/.test(pattern)) {
+      fail('must not contain whitespace');
+    }
+
+    const segments: Token[][] = [[]];
+    const current = () => segments[segments.length - 1];
+
+    const pushText = (tokens: Token[], text: string) => {
+      const last = tokens[tokens.length - 1];
+
+      if (last?.type === 'text') {
+        last.value += text;
+      } else {
+        tokens.push({ type: 'text', value: text });
+      }
+    };
+
+    for (let i = 0; i < pattern.length; i++) {
+      const char = pattern[i];
+
+      if (char === this.escape) {
+        if (i + 1 >= pattern.length) fail('ends with a dangling escape');
+        pushText(current(), pattern[++i]);
+      } else if (this.separators.includes(char)) {
+        segments.push([]);
+      } else if (char === '*') {
+        current().push({ type: 'star' });
+      } else if (char === '{') {
+        const options: string[] = [''];
+        let closed = false;
+
+        for (i++; i < pattern.length; i++) {
+          const inner = pattern[i];
+
+          if (inner === this.escape && i + 1 < pattern.length) {
+            options[options.length - 1] += pattern[++i];
+          } else if (inner === '}') {
+            closed = true;
+            break;
+          } else if (inner === ',') {
+            options.push('');
+          } else if (inner === '{' || inner === '*' || this.separators.includes(inner)) {
+            fail(`may not use "${inner}" inside "{...}"`);
+          } else {
+            options[options.length - 1] += inner;
+          }
+        }
+
+        if (!closed) fail('has an unterminated "{"');
+        if (options.some((option) => option.length === 0)) {
+          fail('has an empty alternative in "{...}"');
+        }
+
+        current().push({ type: 'alternation', options });
+      } else if (char === '}') {
+        fail('has an unexpected "}"');
+      } else {
+        pushText(current(), char);
+      }
+    }
+
+    const compiled = segments.map((tokens, index): PatternSegment => {
+      const stars = tokens.filter((token) => token.type === 'star').length;
+
+      if (tokens.length === 0) {
+        return fail('has an empty segment');
+      }
+
+      if (tokens.length === 2 && stars === 2) {
+        if (index !== segments.length - 1) fail('may only use "**" as its last segment');
+        return { type: 'rest' };
+      }
+
+      if (tokens.length === 1 && stars === 1) {
+        return { type: 'any' };
+      }
+
+      if (
+        tokens.some((token, i) => token.type === 'star' && tokens[i + 1]?.type === 'star')
+      ) {
+        fail('may only use "**" as a whole segment');
+      }
+
+      if (tokens.length === 1 && tokens[0].type === 'text') {
+        return { type: 'literal', value: tokens[0].value };
+      }
+
+      const source = tokens
+        .map((token) => {
+          switch (token.type) {
+            case 'text':
+              return escapeRegex(token.value);
+            case 'star':
+              return '.*';
+            case 'alternation':
+              return `(?:${token.options.map(escapeRegex).join('|')})`;
+          }
+        })
+        .join('');
+
+      return { type: 'glob', source, regex: new RegExp(`^${source}$`, 's') };
+    });
+
+    this.cache.set(pattern, compiled);
+
+    return compiled;
+  };
+
+  validate = (pattern: string): string | undefined => {
+    try {
+      this.parse(pattern);
+      return undefined;
+    } catch (error) {
+      if (error instanceof InvalidPermissionError) return error.message;
+      throw error;
+    }
+  };
+
+  match = (pattern: string, permission: PermissionName): boolean => {
+    if (pattern === permission) {
+      return true;
+    }
+
+    if (this.validate(pattern) !== undefined) {
+      return false;
+    }
+
+    const segments = this.parse(pattern);
+    const parts = this.split(permission);
+
+    for (let i = 0; i < segments.length; i++) {
+      const segment = segments[i];
+      const part = parts[i];
+
+      if (segment.type === 'rest') {
+        return true;
+      }
+
+      if (segment.type === 'any') {
+        continue;
+      }
+
+      if (!part) {
+        return false;
+      }
+
+      if (
+        segment.type === 'literal' ? segment.value !== part : !segment.regex.test(part)
+      ) {
+        return false;
+      }
+    }
+
+    return parts.length === segments.length;
+  };
+}
+
+export const defaultGrammar = new PermissionGrammar();
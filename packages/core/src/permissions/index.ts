@@ -1,34 +1,16 @@
 import { PermissionName } from '../types';
 
+import { defaultGrammar } from './grammar';
+
 export class Permission {
   static match = (pattern: string, permission: PermissionName): boolean => {
-    if (pattern === permission) {
-      return true;
-    }
-
-    const patternParts = pattern.split(':') || pattern.split('.');
-    const permissionParts = permission.split(':') || permission.split('.');
-
-    for (let i = 0; i < patternParts.length; i++) {
-      const patternPart = patternParts[i];
-      const permissionPart = permissionParts[i];
-
-      if (patternPart === '**') {
-        return true;
-      }
-
-      if (patternPart === '*') {
-        continue;
-      }
-
-      if (!permissionPart) {
-        return false;
-      }
+    return defaultGrammar.match(pattern, permission);
+  };
 
-      if (patternPart !== permissionPart) {
-        return false;
-      }
-    }
-    return permissionParts.length === patternParts.length;
+  static validate = (pattern: string): string | undefined => {
+    return defaultGrammar.validate(pattern);
   };
 }
+
+export * from './grammar';
+export * from './PermissionIndex';
@@ -6,3 +6,103 @@ export type PolicyFn<Context = AuthorizationContext> = (args: {
   subject: Subject;
   context: Context;
 }) => boolean | Promise<boolean>;
+
+export type PolicyStrategy = 'all' | 'first';
+
+export type PolicyEvaluation = {
+  passed: boolean;
+  failed?: string;
+};
+
+type Composite = {
+  kind: 'allOf' | 'anyOf' | 'not';
+  policies: PolicyFn[];
+};
+
+const composites = new WeakMap<PolicyFn, Composite>();
+const subjectOnlyPolicies = new WeakSet<PolicyFn>();
+
+export const describePolicy = (policy: PolicyFn): string => {
+  const composite = composites.get(policy);
+
+  if (!composite) {
+    return policy.name || 'anonymous';
+  }
+
+  return `${composite.kind}(${composite.policies.map(describePolicy).join(', ')})`;
+};
+
+export const evaluatePolicy = async (
+  policy: PolicyFn,
+  args: Parameters<PolicyFn>[0]
+): Promise<PolicyEvaluation> => {
+  const composite = composites.get(policy);
+
+  if (!composite) {
+    return (await policy(args))
+      ? { passed: true }
+      : { passed: false, failed: describePolicy(policy) };
+  }
+
+  switch (composite.kind) {
+    case 'allOf': {
+      for (const child of composite.policies) {
+        const evaluation = await evaluatePolicy(child, args);
+        if (!evaluation.passed) return evaluation;
+      }
+      return { passed: true };
+    }
+    case 'anyOf': {
+      for (const child of composite.policies) {
+        if ((await evaluatePolicy(child, args)).passed) return { passed: true };
+      }
+      return { passed: false, failed: describePolicy(policy) };
+    }
+    case 'not': {
+      const [child] = composite.policies;
+      return (await evaluatePolicy(child, args)).passed
+        ? { passed: false, failed: describePolicy(policy) }
+        : { passed: true };
+    }
+  }
+};
+
+const compose = (kind: Composite['kind'], policies: PolicyFn[]): PolicyFn => {
+  const policy: PolicyFn = async (args) => (await evaluatePolicy(policy, args)).passed;
+  composites.set(policy, { kind, policies });
+  return policy;
+};
+
+export const allOf = (...policies: PolicyFn[]): PolicyFn => compose('allOf', policies);
+
+export const anyOf = (...policies: PolicyFn[]): PolicyFn => compose('anyOf', policies);
+
+export const not = (policy: PolicyFn): PolicyFn => compose('not', [policy]);
+
+/**
+ * Marks a policy whose result depends only on the subject, so decisions it
+ * takes part in may be cached. Unmarked policies receive `context` and are
+ * treated as contextual.
+ */
+export const subjectOnly = <P extends PolicyFn>(policy: P): P => {
+  subjectOnlyPolicies.add(policy);
+  return policy;
+};
+
+/**
+ * Marks a policy whose result depends on the authorization context, so
+ * decisions it takes part in are never cached. This is the default for
+ * function policies; use it to undo `subjectOnly`.
+ */
+export const contextual = <P extends PolicyFn>(policy: P): P => {
+  subjectOnlyPolicies.delete(policy);
+  return policy;
+};
+
+export const isContextual = (policy: PolicyFn): boolean => {
+  const composite = composites.get(policy);
+
+  return composite
+    ? composite.policies.some(isContextual)
+    : !subjectOnlyPolicies.has(policy);
+};
@@ -0,0 +1,163 @@
+import { PermissionName } from '../types';
+import { PermissionGrammar, PermissionIndex, PermissionSyntax } from '../permissions';
+import { BrandedResource, isResource, resourcePermissions } from '../engine/resource';
+
+export { resource } from '../engine/resource';
+
+/**
+ * What a frontend needs to answer permission checks for one subject: the
+ * effective grant and deny patterns after inheritance, and the patterns whose
+ * policies only the server can evaluate. Roles and policy code are left out.
+ */
+export type PermissionSnapshot = {
+  /** Snapshot format version. */
+  version: 1;
+  /** Hash of the snapshot content; differs whenever the answers may differ. */
+  hash: string;
+  subject: string;
+  scope?: string;
+  /** When an assignment window of the subject next starts or ends (ISO 8601). */
+  validUntil?: string;
+  grants: PermissionName[];
+  denies: PermissionName[];
+  /** Patterns with policies, where a granted permission needs a server check. */
+  gated: PermissionName[];
+  syntax?: PermissionSyntax;
+};
+
+export type SnapshotAuthorization = {
+  allowed: boolean;
+  reason?: string;
+  permission: string;
+  /** The permission is granted but depends on a policy; ask the server. */
+  gated?: boolean;
+};
+
+type SnapshotContent = Omit<PermissionSnapshot, 'version' | 'hash'>;
+
+const fnv1a = (input: string, seed: number): string => {
+  let hash = seed;
+
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+
+  return hash.toString(16).padStart(8, '0');
+};
+
+export const hashSnapshot = (content: SnapshotContent): string => {
+  const { subject, scope, validUntil, grants, denies, gated, syntax } = content;
+  const source = JSON.stringify([
+    subject,
+    scope,
+    validUntil,
+    grants,
+    denies,
+    gated,
+    syntax
+  ]);
+
+  return `${fnv1a(source, 0x811c9dc5)}${fnv1a(source, 0x2166136b)}`;
+};
+
+export const createSnapshot = (content: SnapshotContent): PermissionSnapshot => ({
+  version: 1,
+  hash: hashSnapshot(content),
+  ...content
+});
+
+/**
+ * Answers `can` from a snapshot with the engine's matching semantics: denies
+ * win over grants, and granted permissions covered by a gated pattern are
+ * refused with `gated: true` until the server confirms them. Meant for UI
+ * decisions only; the server stays authoritative.
+ */
+export class SnapshotEvaluator {
+  readonly snapshot: PermissionSnapshot;
+  private grammar: PermissionGrammar;
+  private grants: PermissionIndex<PermissionName>;
+  private denies: PermissionIndex<PermissionName>;
+  private gated: PermissionIndex<PermissionName>;
+
+  constructor(snapshot: PermissionSnapshot | string) {
+    this.snapshot = typeof snapshot === 'string' ? JSON.parse(snapshot) : snapshot;
+
+    if (this.snapshot.version !== 1) {
+      throw new Error(`Unsupported permission snapshot version ${this.snapshot.version}`);
+    }
+
+    this.grammar = new PermissionGrammar(this.snapshot.syntax);
+    this.grants = this.compile(this.snapshot.grants);
+    this.denies = this.compile(this.snapshot.denies);
+    this.gated = this.compile(this.snapshot.gated);
+  }
+
+  get hash(): string {
+    return this.snapshot.hash;
+  }
+
+  /**
+   * True when `hash` (e.g. from the server) no longer matches this snapshot.
+   */
+  isStale = (hash: string): boolean => {
+    return hash !== this.snapshot.hash;
+  };
+
+  /**
+   * True once one of the subject's assignments has started or ended since the
+   * snapshot was taken; a fresh snapshot is needed from then on.
+   */
+  isExpired = (now: number = Date.now()): boolean => {
+    const { validUntil } = this.snapshot;
+    return validUntil !== undefined && !(now < Date.parse(validUntil));
+  };
+
+  /**
+   * Checks a permission, or an action on a resource built with `resource()`.
+   */
+  can = (permission: string, resource?: BrandedResource): SnapshotAuthorization => {
+    const permissions = isResource(resource)
+      ? resourcePermissions(this.grammar, permission, resource)
+      : [permission];
+    const name = permissions[0];
+
+    const deny = this.denies.match(...permissions);
+    if (deny !== undefined) {
+      return {
+        allowed: false,
+        reason: `Permission denied (deny pattern "${deny}")`,
+        permission: name
+      };
+    }
+
+    if (this.grants.match(...permissions) === undefined) {
+      return {
+        allowed: false,
+        reason: 'Permission not found in subject roles/permissions',
+        permission: name
+      };
+    }
+
+    if (this.gated.match(...permissions) !== undefined) {
+      return {
+        allowed: false,
+        reason: 'Permission depends on a policy evaluated by the server',
+        permission: name,
+        gated: true
+      };
+    }
+
+    return { allowed: true, permission: name };
+  };
+
+  private compile = (patterns: PermissionName[]): PermissionIndex<PermissionName> => {
+    const index = new PermissionIndex<PermissionName>(this.grammar);
+
+    patterns
+      .filter((pattern) => this.grammar.validate(pattern) === undefined)
+      .forEach((pattern) => index.add(pattern, pattern));
+
+    return index;
+  };
+}
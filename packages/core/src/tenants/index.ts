@@ -0,0 +1,135 @@
+import { PolicyDocument } from '../types';
+import { RBACEngine, RBACEngineOptions, copyRole } from '../engine';
+import { StorageAdapter } from '../adapters';
+import { loadDocument, parseDocument } from '../document';
+import { DocumentValidationError } from '../errors';
+
+export type TenantLoader = (
+  tenantId: string
+) => PolicyDocument | string | undefined | Promise<PolicyDocument | string | undefined>;
+
+export type TenantRegistryOptions = {
+  /** Roles, permissions and policies every tenant starts from. */
+  base?: PolicyDocument;
+  /** Loads a tenant's own roles and overrides the first time it is used. */
+  load?: TenantLoader;
+  /** Registers code-defined policies on each tenant engine once it is loaded. */
+  configure?: (engine: RBACEngine, tenantId: string) => void;
+  /**
+   * Creates the storage a tenant engine fetches unknown roles from. Each tenant
+   * needs its own adapter, so it can never fetch another tenant's roles.
+   */
+  storage?: (tenantId: string) => StorageAdapter;
+  /** Options of every tenant engine, except `storage`. */
+  engine?: Omit<RBACEngineOptions, 'storage'>;
+};
+
+/**
+ * Layers a tenant document over the base document. Tenant roles and
+ * permissions replace base entries with the same name, new ones are appended
+ * and tenant policies run after the base policies.
+ */
+export const mergeDocuments = (
+  base: PolicyDocument,
+  overlay: PolicyDocument
+): PolicyDocument => {
+  const roles = new Map(base.roles.map((role) => [role.name, copyRole(role)]));
+  overlay.roles.forEach((role) => roles.set(role.name, copyRole(role)));
+
+  const permissions = new Map(
+    [...(base.permissions ?? []), ...(overlay.permissions ?? [])].map((permission) => [
+      permission.name,
+      { ...permission }
+    ])
+  );
+
+  const policies = [...(base.policies ?? []), ...(overlay.policies ?? [])];
+
+  return {
+    version: 1,
+    ...(permissions.size > 0 && { permissions: [...permissions.values()] }),
+    roles: [...roles.values()],
+    ...(policies.length > 0 && { policies: policies.map((policy) => ({ ...policy })) })
+  };
+};
+
+/**
+ * Keeps one engine per tenant. Each engine is built from the shared base
+ * document with the tenant's own document layered on top, so a tenant can only
+ * ever resolve its own roles.
+ */
+export class TenantRegistry {
+  private base: PolicyDocument;
+  private engines = new Map<string, Promise<RBACEngine>>();
+
+  constructor(private options: TenantRegistryOptions = {}) {
+    const base = options.base ?? { version: 1, roles: [] };
+
+    if ((options.engine as RBACEngineOptions | undefined)?.storage) {
+      throw new Error(
+        'TenantRegistry cannot share engine.storage between tenants, pass a storage factory instead'
+      );
+    }
+
+    // Fail fast on a broken base document instead of on the first tenant.
+    loadDocument(new RBACEngine(options.engine), base);
+    this.base = mergeDocuments({ version: 1, roles: [] }, base);
+  }
+
+  /**
+   * Returns the tenant's engine, loading its configuration on first use.
+   * Concurrent calls share one load; a failed load is retried on the next call.
+   */
+  engine = (tenantId: string): Promise<RBACEngine> => {
+    let engine = this.engines.get(tenantId);
+
+    if (!engine) {
+      engine = this.build(tenantId);
+      engine.catch(() => this.engines.delete(tenantId));
+      this.engines.set(tenantId, engine);
+    }
+
+    return engine;
+  };
+
+  has = (tenantId: string): boolean => {
+    return this.engines.has(tenantId);
+  };
+
+  tenants = (): string[] => {
+    return [...this.engines.keys()];
+  };
+
+  /**
+   * Drops a tenant's engine, or every engine, so it is reloaded on next use.
+   */
+  invalidate = (tenantId?: string): void => {
+    if (tenantId === undefined) {
+      this.engines.clear();
+    } else {
+      this.engines.delete(tenantId);
+    }
+  };
+
+  private build = async (tenantId: string): Promise<RBACEngine> => {
+    const source = await this.options.load?.(tenantId);
+    const overlay =
+      typeof source === 'string' ? (parseDocument(source) as PolicyDocument) : source;
+
+    if (overlay !== undefined && !Array.isArray(overlay?.roles)) {
+      throw new DocumentValidationError([
+        { path: '/roles', message: 'Must be an array' }
+      ]);
+    }
+
+    const { storage } = this.options;
+    const engine = new RBACEngine({
+      ...this.options.engine,
+      ...(storage && { storage: storage(tenantId) })
+    });
+    loadDocument(engine, overlay ? mergeDocuments(this.base, overlay) : this.base);
+    this.options.configure?.(engine, tenantId);
+
+    return engine;
+  };
+}
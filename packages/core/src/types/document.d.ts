@@ -0,0 +1,14 @@
+import { Permission } from './permission';
+import { Role } from './role';
+
+export type PolicyDefinition = {
+  permission: string;
+  condition: string;
+};
+
+export type PolicyDocument = {
+  version: 1;
+  permissions?: Permission[];
+  roles: Role[];
+  policies?: PolicyDefinition[];
+};
@@ -1,3 +1,5 @@
-export * from './permission';
-export * from './role';
-export * from './subject';
+export type * from './permission';
+export type * from './role';
+export type * from './subject';
+export type * from './document';
+export type * from './resource';
@@ -0,0 +1,6 @@
+export type Resource = {
+  type: string;
+  id?: string;
+  scope?: string;
+  attributes?: Record<string, unknown>;
+};
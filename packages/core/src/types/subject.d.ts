@@ -1,8 +1,26 @@
 import { PermissionName } from './permission';
 
+/**
+ * Limits an assignment to `validFrom <= now < validUntil`. Either bound may be
+ * omitted; strings are ISO 8601 timestamps.
+ */
+export type AssignmentWindow = {
+  validFrom?: Date | string;
+  validUntil?: Date | string;
+};
+
+export type RoleAssignment = AssignmentWindow & {
+  role: string;
+  scope?: string;
+};
+
+export type PermissionAssignment = AssignmentWindow & {
+  permission: PermissionName;
+};
+
 export type Subject = {
   id: string;
-  roles: string[];
-  permissions?: PermissionName[];
+  roles: (string | RoleAssignment)[];
+  permissions?: (PermissionName | PermissionAssignment)[];
   attributes?: Record<string, unknown>;
 };
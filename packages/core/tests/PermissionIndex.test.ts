@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+
+import { Permission, PermissionIndex } from '../src/permissions';
+
+const patterns = [
+  'user:read',
+  'user:*',
+  'user:*:view',
+  '*:read',
+  'user:**',
+  'admin:**',
+  '**',
+  'org:team:project:resource:action',
+  'a:*:**',
+  'post',
+  'user:read'
+];
+
+const permissions = [
+  'user:read',
+  'user:write',
+  'user:read:all',
+  'user:profile:view',
+  'user',
+  'post:read',
+  'post',
+  'admin',
+  'admin:users:delete',
+  'org:team:project:resource:action',
+  'org:team:project',
+  'a',
+  'a:b',
+  'a:b:c:d'
+];
+
+describe('PermissionIndex', () => {
+  it('should agree with Permission.match for every pattern and permission', () => {
+    for (const pattern of patterns) {
+      const index = new PermissionIndex<string>();
+      index.add(pattern, pattern);
+
+      for (const permission of permissions) {
+        expect(index.match(permission) !== undefined, `${pattern} vs ${permission}`).toBe(
+          Permission.match(pattern, permission)
+        );
+      }
+    }
+  });
+
+  it('should return all matches in insertion order', () => {
+    const index = new PermissionIndex<number>();
+    patterns.forEach((pattern, i) => index.add(pattern, i));
+
+    for (const permission of permissions) {
+      const expected = patterns.flatMap((pattern, i) =>
+        Permission.match(pattern, permission) ? [i] : []
+      );
+
+      expect(index.matchAll(permission)).toEqual(expected);
+    }
+  });
+
+  it('should return the earliest added match', () => {
+    const index = new PermissionIndex<string>();
+
+    index.add('post:*', 'wildcard');
+    index.add('post:edit', 'exact');
+
+    expect(index.match('post:edit')).toBe('wildcard');
+  });
+
+  it('should return undefined when nothing matches', () => {
+    const index = new PermissionIndex<string>();
+
+    index.add('post:read', 'read');
+
+    expect(index.match('post:edit')).toBeUndefined();
+    expect(index.matchAll('post')).toEqual([]);
+    expect(index.size).toBe(1);
+  });
+});
@@ -0,0 +1,260 @@
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import { RBACEngine } from '../src/engine/RBACEngine';
+import { MemoryAdapter, describeStorageAdapter } from '../src/adapters';
+import { JsonFileAdapter } from '../src/adapters/json-file';
+import { RoleValidationError } from '../src/errors';
+
+describeStorageAdapter('MemoryAdapter', () => new MemoryAdapter(), {
+  describe,
+  it,
+  expect
+});
+
+describe('JsonFileAdapter', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'unirbac-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  let count = 0;
+  describeStorageAdapter(
+    'JsonFileAdapter',
+    () => new JsonFileAdapter(join(directory, `store-${count++}.json`)),
+    { describe, it, expect }
+  );
+
+  it('should persist changes to the file', async () => {
+    const path = join(directory, 'store.json');
+    const adapter = new JsonFileAdapter(path);
+
+    await Promise.all([
+      adapter.saveRole({ name: 'viewer', level: 10, permissions: ['post:read'] }),
+      adapter.saveSubject({ id: 'alice', roles: ['viewer'] }),
+      adapter.savePermission({ name: 'post:read' })
+    ]);
+
+    expect(JSON.parse(await readFile(path, 'utf8'))).toEqual({
+      roles: [{ name: 'viewer', level: 10, permissions: ['post:read'] }],
+      subjects: [{ id: 'alice', roles: ['viewer'] }],
+      permissions: [{ name: 'post:read' }]
+    });
+
+    const reopened = new JsonFileAdapter(path);
+    expect(await reopened.getSubject('alice')).toEqual({
+      id: 'alice',
+      roles: ['viewer']
+    });
+  });
+
+  it('should read existing files', async () => {
+    const path = join(directory, 'existing.json');
+    await writeFile(
+      path,
+      JSON.stringify({ roles: [{ name: 'admin', level: 100, permissions: ['**'] }] })
+    );
+
+    expect(await new JsonFileAdapter(path).listRoles()).toEqual([
+      { name: 'admin', level: 100, permissions: ['**'] }
+    ]);
+  });
+
+  it('should report unreadable files', async () => {
+    const path = join(directory, 'broken.json');
+    await writeFile(path, '{ not json');
+
+    await expect(new JsonFileAdapter(path).listRoles()).rejects.toThrow(SyntaxError);
+  });
+});
+
+describe('Engine storage', () => {
+  let storage: MemoryAdapter;
+
+  beforeEach(() => {
+    storage = new MemoryAdapter({
+      roles: [
+        { name: 'viewer', level: 10, permissions: ['post:read'] },
+        { name: 'editor', level: 50, permissions: ['post:edit'], inherits: ['viewer'] },
+        { name: 'admin', level: 100, permissions: ['**'] }
+      ],
+      subjects: [{ id: 'alice', roles: ['editor'] }]
+    });
+  });
+
+  it('should fetch assigned and inherited roles on demand', async () => {
+    const getRole = vi.spyOn(storage, 'getRole');
+    const engine = new RBACEngine({ storage });
+    const alice = { id: 'alice', roles: ['editor'] };
+
+    expect((await engine.can(alice, 'post:read')).allowed).toBe(true);
+    expect(getRole.mock.calls.map(([name]) => name)).toEqual(['editor', 'viewer']);
+  });
+
+  it('should fetch role graphs in one call when the adapter supports it', async () => {
+    const getRole = vi.spyOn(storage, 'getRole');
+    const getRoleGraph = vi.fn(async (names: string[]) =>
+      names.includes('editor')
+        ? [
+            {
+              name: 'editor',
+              level: 50,
+              permissions: ['post:edit'],
+              inherits: ['viewer']
+            },
+            { name: 'viewer', level: 10, permissions: ['post:read'] }
+          ]
+        : []
+    );
+    const engine = new RBACEngine({ storage: Object.assign(storage, { getRoleGraph }) });
+
+    expect((await engine.can({ id: 'a', roles: ['editor'] }, 'post:read')).allowed).toBe(
+      true
+    );
+    expect(getRoleGraph).toHaveBeenCalledTimes(1);
+    expect(getRole).not.toHaveBeenCalled();
+  });
+
+  it('should cache fetched roles', async () => {
+    const getRole = vi.spyOn(storage, 'getRole');
+    const engine = new RBACEngine({ storage });
+    const alice = { id: 'alice', roles: ['editor', 'ghost'] };
+
+    await engine.can(alice, 'post:read');
+    await engine.canMany(alice, ['post:edit', 'post:delete']);
+    await engine.explain(alice, 'post:read');
+
+    expect(getRole).toHaveBeenCalledTimes(3);
+  });
+
+  it('should prefer registered roles over stored ones', async () => {
+    const engine = new RBACEngine({ storage });
+    engine.addRole({ name: 'viewer', level: 10, permissions: [] });
+
+    expect((await engine.can({ id: 'a', roles: ['editor'] }, 'post:read')).allowed).toBe(
+      false
+    );
+  });
+
+  it('should fetch roles again after a refresh', async () => {
+    const engine = new RBACEngine({ storage });
+    const bob = { id: 'bob', roles: ['viewer'] };
+
+    await engine.can(bob, 'post:read');
+    await storage.saveRole({ name: 'viewer', level: 10, permissions: ['post:*'] });
+
+    expect((await engine.can(bob, 'post:delete')).allowed).toBe(false);
+
+    engine.refresh('viewer');
+
+    expect((await engine.can(bob, 'post:delete')).allowed).toBe(true);
+  });
+
+  it('should reload parents of cached roles after a refresh', async () => {
+    const engine = new RBACEngine({ storage });
+    const alice = { id: 'alice', roles: ['editor'] };
+
+    await engine.can(alice, 'post:read');
+    engine.refresh('viewer');
+
+    expect((await engine.can(alice, 'post:read')).allowed).toBe(true);
+  });
+
+  it('should keep roles added in code on a refresh', async () => {
+    const engine = new RBACEngine({ storage });
+    engine.addRole({ name: 'author', level: 20, permissions: ['post:create'] });
+
+    engine.refresh();
+
+    expect(
+      (await engine.can({ id: 'a', roles: ['author'] }, 'post:create')).allowed
+    ).toBe(true);
+  });
+
+  it('should keep roles registered while a fetch is in flight', async () => {
+    const engine = new RBACEngine({ storage });
+    const alice = { id: 'alice', roles: ['editor'] };
+    const getRole = storage.getRole;
+    vi.spyOn(storage, 'getRole').mockImplementation(async (name) => {
+      if (name === 'viewer') {
+        engine.addRole({
+          name: 'editor',
+          level: 50,
+          permissions: [],
+          inherits: ['viewer']
+        });
+      }
+      return getRole(name);
+    });
+
+    await engine.can(alice, 'post:edit');
+    engine.refresh();
+
+    expect(engine.getRole('editor')?.permissions).toEqual([]);
+    expect((await engine.can(alice, 'post:edit')).allowed).toBe(false);
+  });
+
+  it('should register each fetched role once under concurrent checks', async () => {
+    const engine = new RBACEngine({ storage });
+    const added = vi.fn();
+    const updated = vi.fn();
+    engine.on('roleAdded', added);
+    engine.on('roleUpdated', updated);
+    const alice = { id: 'alice', roles: ['editor'] };
+
+    await Promise.all([
+      engine.can(alice, 'post:read'),
+      engine.can(alice, 'post:edit'),
+      engine.can(alice, 'post:delete')
+    ]);
+
+    expect(added.mock.calls.map(([{ role }]) => role.name)).toEqual(['viewer', 'editor']);
+    expect(updated).not.toHaveBeenCalled();
+  });
+
+  it('should fetch roles before comparing levels', async () => {
+    const engine = new RBACEngine({ storage });
+    const moderator = { id: 'm', roles: ['editor'] };
+    const admin = { id: 'a', roles: ['admin'] };
+
+    await engine.can(moderator, 'post:read');
+
+    expect(await engine.canManage(moderator, admin)).toBe(false);
+
+    engine.refresh('admin');
+
+    expect(await engine.canManage(moderator, admin)).toBe(false);
+    expect(await engine.levelOf(admin)).toBe(100);
+  });
+
+  it('should load subjects with their roles', async () => {
+    const engine = new RBACEngine({ storage });
+    const alice = await engine.loadSubject('alice');
+
+    expect(alice).toEqual({ id: 'alice', roles: ['editor'] });
+    expect(await engine.levelOf(alice!)).toBe(50);
+    expect(await engine.loadSubject('nobody')).toBeUndefined();
+  });
+
+  it('should validate fetched roles in strict mode', async () => {
+    await storage.saveRole({
+      name: 'intern',
+      level: 5,
+      permissions: ['post:read'],
+      inherits: ['admin']
+    });
+    const engine = new RBACEngine({ storage, strict: true });
+
+    await expect(engine.can({ id: 'i', roles: ['intern'] }, 'post:read')).rejects.toThrow(
+      RoleValidationError
+    );
+  });
+});
@@ -0,0 +1,257 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { RBACEngine, RBACEngineOptions } from '../src/engine/RBACEngine';
+import { Subject } from '../src/types';
+import { resource } from '../src/engine';
+import { AuditOptions, AuditRecord, REDACTED, redactContext } from '../src/audit';
+import { JsonLinesAuditSink } from '../src/audit/json-lines';
+
+describe('Audit logging', () => {
+  let records: AuditRecord[];
+
+  const alice: Subject = { id: 'alice', roles: ['editor'] };
+
+  const createEngine = (
+    audit: Partial<AuditOptions> = {},
+    options: RBACEngineOptions = {}
+  ) => {
+    const engine = new RBACEngine({
+      ...options,
+      audit: { sink: { write: (record) => void records.push(record) }, ...audit }
+    });
+
+    engine.addRole({
+      name: 'editor',
+      level: 50,
+      permissions: ['post:*', 'document:*'],
+      denies: ['post:delete']
+    });
+
+    return engine;
+  };
+
+  beforeEach(() => {
+    records = [];
+  });
+
+  it('should record allowed decisions with the matched grant', async () => {
+    const engine = createEngine();
+
+    await engine.can(alice, 'post:edit', { requestId: 'r1' });
+
+    expect(records).toEqual([
+      {
+        timestamp: expect.any(String),
+        subjectId: 'alice',
+        permission: 'post:edit',
+        allowed: true,
+        grant: { pattern: 'post:*', source: { type: 'role', role: 'editor' } },
+        policies: [],
+        context: { requestId: 'r1' },
+        latency: expect.any(Number),
+        cached: false
+      }
+    ]);
+    expect(Date.parse(records[0].timestamp)).not.toBeNaN();
+    expect(records[0].latency).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should stamp records with the engine clock', async () => {
+    const now = Date.parse('2026-03-04T12:00:00Z');
+    const engine = createEngine({}, { now: () => now });
+
+    await engine.can(alice, 'post:edit');
+
+    expect(records[0].timestamp).toBe('2026-03-04T12:00:00.000Z');
+  });
+
+  it('should record the deny rule and the failed policy', async () => {
+    const engine = createEngine();
+    engine.addPolicy('post:edit', 'subject.id == resource.ownerId');
+
+    await engine.can(alice, 'post:delete');
+    await engine.can(alice, 'post:edit', { resource: { ownerId: 'bob' } });
+
+    expect(records[0]).toMatchObject({
+      allowed: false,
+      deny: { pattern: 'post:delete', source: { type: 'role', role: 'editor' } }
+    });
+    expect(records[0].grant).toBeUndefined();
+    expect(records[1]).toMatchObject({
+      allowed: false,
+      reason: 'Access denied by policy',
+      policy: 'subject.id == resource.ownerId',
+      grant: { pattern: 'post:*' }
+    });
+  });
+
+  it('should record the policies that allowed a decision', async () => {
+    const engine = createEngine();
+    engine.addPolicy('post:*', function isAuthor({ subject }) {
+      return subject.roles.includes('editor');
+    });
+    engine.addPolicy('post:edit', 'context.locked != true');
+
+    await engine.can(alice, 'post:edit');
+    await engine.can(alice, 'document:read');
+
+    expect(records[0]).toMatchObject({
+      allowed: true,
+      policies: ['isAuthor', 'context.locked != true']
+    });
+    expect(records[0].policy).toBeUndefined();
+    expect(records[1].policies).toEqual([]);
+  });
+
+  it('should record resources and scopes', async () => {
+    const engine = createEngine();
+
+    await engine.can(
+      alice,
+      'edit',
+      resource({ type: 'document', id: '7', scope: 'org:a' })
+    );
+
+    expect(records[0]).toMatchObject({
+      permission: 'document:7:edit',
+      resource: { type: 'document', id: '7', scope: 'org:a' },
+      scope: 'org:a',
+      context: { resource: { type: 'document', id: '7' } }
+    });
+  });
+
+  it('should audit batch checks and filters', async () => {
+    const engine = createEngine();
+
+    await engine.canMany(alice, ['post:read', 'user:read']);
+    await engine.filter(alice, 'read', [{ type: 'document', id: '1' }]);
+
+    expect(records.map((record) => [record.permission, record.allowed])).toEqual([
+      ['post:read', true],
+      ['user:read', false],
+      ['document:1:read', true]
+    ]);
+  });
+
+  it('should not audit explain', async () => {
+    const engine = createEngine();
+
+    await engine.explain(alice, 'post:edit');
+
+    expect(records).toEqual([]);
+  });
+
+  it('should flag decisions served from the cache', async () => {
+    const engine = createEngine({}, { cache: true });
+
+    await engine.can(alice, 'post:edit');
+    await engine.can(alice, 'post:edit');
+
+    expect(records.map((record) => record.cached)).toEqual([false, true]);
+    expect(records[1].grant).toEqual(records[0].grant);
+  });
+
+  it('should redact credentials from the context', async () => {
+    const engine = createEngine();
+
+    await engine.can(alice, 'post:edit', {
+      ip: '10.0.0.1',
+      headers: { Authorization: 'Bearer x', 'x-api-key': 'k' },
+      user: { password: 'hunter2', name: 'alice' }
+    });
+
+    expect(records[0].context).toEqual({
+      ip: '10.0.0.1',
+      headers: { Authorization: REDACTED, 'x-api-key': REDACTED },
+      user: { password: REDACTED, name: 'alice' }
+    });
+  });
+
+  it('should accept a custom redaction', async () => {
+    const engine = createEngine({ redact: ({ ip }) => ({ ip }) });
+
+    await engine.can(alice, 'post:edit', { ip: '10.0.0.1', body: 'large' });
+
+    expect(records[0].context).toEqual({ ip: '10.0.0.1' });
+  });
+
+  it('should sample decisions by rate', async () => {
+    const random = vi.spyOn(Math, 'random');
+
+    try {
+      const engine = createEngine({ sample: 0.25 });
+
+      random.mockReturnValueOnce(0.1).mockReturnValueOnce(0.5);
+      await engine.can(alice, 'post:edit');
+      await engine.can(alice, 'post:read');
+
+      expect(records.map((record) => record.permission)).toEqual(['post:edit']);
+    } finally {
+      random.mockRestore();
+    }
+  });
+
+  it('should sample decisions with a function', async () => {
+    const engine = createEngine({ sample: (record) => !record.allowed });
+
+    await engine.can(alice, 'post:edit');
+    await engine.can(alice, 'user:read');
+
+    expect(records.map((record) => record.permission)).toEqual(['user:read']);
+  });
+
+  it('should report sink failures without affecting decisions', async () => {
+    const onError = vi.fn();
+    const engine = createEngine({
+      sink: { write: () => Promise.reject(new Error('disk full')) },
+      onError
+    });
+
+    const result = await engine.can(alice, 'post:edit');
+    await Promise.resolve();
+
+    expect(result.allowed).toBe(true);
+    expect(onError).toHaveBeenCalledWith(new Error('disk full'));
+  });
+
+  it('should redact nested arrays without mutating the context', () => {
+    const context = { devices: [{ token: 'a' }], scope: 'org:a' };
+
+    expect(redactContext(context)).toEqual({
+      devices: [{ token: REDACTED }],
+      scope: 'org:a'
+    });
+    expect(context.devices[0].token).toBe('a');
+  });
+});
+
+describe('JsonLinesAuditSink', () => {
+  it('should append one JSON record per line', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'unirbac-'));
+
+    try {
+      const path = join(directory, 'audit.log');
+      const sink = new JsonLinesAuditSink(path);
+      const engine = new RBACEngine({ audit: { sink } });
+      engine.addRole({ name: 'viewer', level: 10, permissions: ['post:read'] });
+
+      const subject = { id: 'bob', roles: ['viewer'] };
+      await engine.can(subject, 'post:read');
+      await engine.can(subject, 'post:edit');
+      await sink.flush();
+
+      const lines = (await readFile(path, 'utf8')).trimEnd().split('\n');
+
+      expect(lines.map((line) => JSON.parse(line))).toMatchObject([
+        { subjectId: 'bob', permission: 'post:read', allowed: true },
+        { subjectId: 'bob', permission: 'post:edit', allowed: false }
+      ]);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { RBACEngine } from '../src/engine/RBACEngine';
+import { Subject } from '../src/types';
+
+describe('Batch authorization', () => {
+  let engine: RBACEngine;
+
+  const editor: Subject = { id: 'editor-1', roles: ['editor'] };
+
+  beforeEach(() => {
+    engine = new RBACEngine();
+
+    engine.addRole({ name: 'viewer', level: 10, permissions: ['post:read'] });
+    engine.addRole({
+      name: 'editor',
+      level: 50,
+      permissions: ['post:*'],
+      inherits: ['viewer'],
+      denies: ['post:delete']
+    });
+  });
+
+  describe('canMany', () => {
+    it('should return an authorization per permission', async () => {
+      const results = await engine.canMany(editor, [
+        'post:read',
+        'post:delete',
+        'user:read'
+      ]);
+
+      expect(Object.keys(results)).toEqual(['post:read', 'post:delete', 'user:read']);
+      expect(results['post:read']).toEqual(await engine.can(editor, 'post:read'));
+      expect(results['post:delete'].allowed).toBe(false);
+      expect(results['post:delete'].reason).toContain('deny pattern');
+      expect(results['user:read'].reason).toBe(
+        'Permission not found in subject roles/permissions'
+      );
+    });
+
+    it('should resolve the subject roles only once', async () => {
+      const resolveSubject = vi.spyOn(
+        engine as unknown as { resolveSubject: () => unknown },
+        'resolveSubject'
+      );
+
+      await engine.canMany(editor, ['post:read', 'post:edit', 'post:publish']);
+
+      expect(resolveSubject).toHaveBeenCalledTimes(1);
+    });
+
+    it('should run policies for different permissions concurrently', async () => {
+      const order: string[] = [];
+
+      const delayed = (name: string, ms: number) => async () => {
+        await new Promise((resolve) => setTimeout(resolve, ms));
+        order.push(name);
+        return true;
+      };
+
+      engine.addPolicy('post:edit', delayed('post:edit', 20));
+      engine.addPolicy('post:publish', delayed('post:publish', 1));
+
+      await engine.canMany(editor, ['post:edit', 'post:publish']);
+
+      expect(order).toEqual(['post:publish', 'post:edit']);
+    });
+
+    it('should pass the shared context to every policy', async () => {
+      engine.addPolicy(
+        'post:*',
+        ({ subject, context }) => context.ownerId === subject.id
+      );
+
+      const results = await engine.canMany(editor, ['post:edit', 'post:read'], {
+        ownerId: 'someone-else'
+      });
+
+      expect(results['post:edit'].allowed).toBe(false);
+      expect(results['post:read'].allowed).toBe(false);
+    });
+  });
+
+  describe('canAll', () => {
+    it('should allow only when every permission is allowed', async () => {
+      const allowed = await engine.canAll(editor, ['post:read', 'post:edit']);
+      const denied = await engine.canAll(editor, ['post:read', 'post:delete']);
+
+      expect(allowed.allowed).toBe(true);
+      expect(denied.allowed).toBe(false);
+      expect(denied.results['post:delete'].allowed).toBe(false);
+    });
+
+    it('should allow an empty permission list', async () => {
+      expect((await engine.canAll(editor, [])).allowed).toBe(true);
+    });
+  });
+
+  describe('canAny', () => {
+    it('should allow when at least one permission is allowed', async () => {
+      const allowed = await engine.canAny(editor, ['user:read', 'post:edit']);
+      const denied = await engine.canAny(editor, ['user:read', 'post:delete']);
+
+      expect(allowed.allowed).toBe(true);
+      expect(denied.allowed).toBe(false);
+    });
+
+    it('should deny an empty permission list', async () => {
+      expect((await engine.canAny(editor, [])).allowed).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,268 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import { RBACEngine } from '../src/engine/RBACEngine';
+import { Subject } from '../src/types';
+import { resource } from '../src/engine';
+import { allOf, contextual, isContextual, subjectOnly } from '../src/policy';
+import { condition } from '../src/conditions';
+import { Cache } from '../src/cache';
+
+describe('Decision caching', () => {
+  let engine: RBACEngine;
+
+  const alice: Subject = {
+    id: 'alice',
+    roles: ['editor'],
+    attributes: { verified: true }
+  };
+
+  beforeEach(() => {
+    engine = new RBACEngine({ cache: true });
+
+    engine.addRole({ name: 'viewer', level: 10, permissions: ['post:read'] });
+    engine.addRole({
+      name: 'editor',
+      level: 50,
+      permissions: ['post:*'],
+      inherits: ['viewer']
+    });
+  });
+
+  it('should be disabled unless configured', () => {
+    expect(new RBACEngine().cacheStats()).toBeUndefined();
+  });
+
+  it('should answer repeated checks from the cache', async () => {
+    const first = await engine.can(alice, 'post:edit');
+    const second = await engine.can(alice, 'post:edit');
+
+    expect(second).toEqual(first);
+    expect(engine.cacheStats()).toEqual({
+      decisions: { hits: 1, misses: 1, size: 1 },
+      roles: { hits: 0, misses: 1, size: 1 }
+    });
+  });
+
+  it('should not let callers mutate cached decisions', async () => {
+    const first = await engine.can(alice, 'post:edit');
+    first.allowed = false;
+
+    expect((await engine.can(alice, 'post:edit')).allowed).toBe(true);
+  });
+
+  it('should reuse resolved role graphs across permissions', async () => {
+    await engine.can(alice, 'post:edit');
+    await engine.can(alice, 'post:read');
+    await engine.canMany({ id: 'bob', roles: ['editor'] }, ['post:a', 'post:b']);
+
+    expect(engine.cacheStats()?.roles).toEqual({ hits: 2, misses: 1, size: 1 });
+  });
+
+  it('should key decisions on the whole subject', async () => {
+    await engine.can(alice, 'post:edit');
+
+    const viewer = { ...alice, roles: ['viewer'] };
+    const direct = { ...alice, roles: [], permissions: ['post:edit'] };
+
+    expect((await engine.can(viewer, 'post:edit')).allowed).toBe(false);
+    expect((await engine.can(direct, 'post:edit')).allowed).toBe(true);
+    expect(engine.cacheStats()?.decisions.hits).toBe(0);
+  });
+
+  it('should key decisions on the scope and resource', async () => {
+    const member: Subject = { id: 'm', roles: [{ role: 'editor', scope: 'org:A' }] };
+
+    expect((await engine.can(member, 'post:edit', { scope: 'org:A' })).allowed).toBe(
+      true
+    );
+    expect((await engine.can(member, 'post:edit', { scope: 'org:B' })).allowed).toBe(
+      false
+    );
+
+    engine.addRole({ name: 'one', level: 1, permissions: ['doc:1:read'] });
+    const reader: Subject = { id: 'r', roles: ['one'] };
+
+    expect(
+      (await engine.can(reader, 'read', resource({ type: 'doc', id: '1' }))).allowed
+    ).toBe(true);
+    expect(
+      (await engine.can(reader, 'read', resource({ type: 'doc', id: '2' }))).allowed
+    ).toBe(false);
+  });
+
+  it('should invalidate when roles change', async () => {
+    await engine.can(alice, 'user:read');
+
+    engine.addRole({
+      name: 'editor',
+      level: 50,
+      permissions: ['post:*', 'user:read'],
+      inherits: ['viewer']
+    });
+
+    expect((await engine.can(alice, 'user:read')).allowed).toBe(true);
+  });
+
+  it('should invalidate when policies change', async () => {
+    await engine.can(alice, 'post:edit');
+
+    engine.addPolicy('post:edit', () => false);
+
+    expect((await engine.can(alice, 'post:edit')).allowed).toBe(false);
+  });
+
+  it('should cache decisions of policies that only read the subject', async () => {
+    const policy = vi.fn(({ subject }) => subject.attributes?.verified === true);
+    engine.addPolicy('post:edit', subjectOnly(policy));
+
+    await engine.can(alice, 'post:edit');
+    await engine.can(alice, 'post:edit');
+
+    expect(policy).toHaveBeenCalledTimes(1);
+  });
+
+  it('should treat unmarked policies as contextual', async () => {
+    engine.addPolicy(
+      'post:edit',
+      ({ subject, context }) => context.ownerId === subject.id
+    );
+
+    expect((await engine.can(alice, 'post:edit', { ownerId: 'alice' })).allowed).toBe(
+      true
+    );
+    expect((await engine.can(alice, 'post:edit', { ownerId: 'bob' })).allowed).toBe(
+      false
+    );
+    expect(engine.cacheStats()?.decisions.hits).toBe(0);
+  });
+
+  it('should never cache decisions involving contextual policies', async () => {
+    const policy = vi.fn(({ context }) => context.locked !== true);
+    engine.addPolicy('post:edit', contextual(policy));
+
+    expect((await engine.can(alice, 'post:edit')).allowed).toBe(true);
+    expect((await engine.can(alice, 'post:edit', { locked: true })).allowed).toBe(false);
+    expect(policy).toHaveBeenCalledTimes(2);
+
+    await engine.can(alice, 'post:read');
+    await engine.can(alice, 'post:read');
+    expect(engine.cacheStats()?.decisions.hits).toBe(1);
+  });
+
+  it('should treat conditions reading context or resource as contextual', () => {
+    expect(isContextual(condition('subject.attributes.verified'))).toBe(false);
+    expect(isContextual(condition('context.time.hour in [9..17]'))).toBe(true);
+    expect(isContextual(condition('subject.id == resource.ownerId'))).toBe(true);
+    expect(isContextual(allOf(() => true, condition('context.ok')))).toBe(true);
+    expect(
+      isContextual(
+        allOf(
+          subjectOnly(() => true),
+          condition('subject.id')
+        )
+      )
+    ).toBe(false);
+    expect(isContextual(() => true)).toBe(true);
+    expect(isContextual(contextual(subjectOnly(() => true)))).toBe(true);
+    expect(isContextual(engine.assignRolePolicy())).toBe(true);
+  });
+
+  it('should expire entries after the TTL', async () => {
+    vi.useFakeTimers();
+
+    try {
+      const expiring = new RBACEngine({ cache: { ttl: 1000 } });
+      expiring.addRole({ name: 'editor', level: 50, permissions: ['post:*'] });
+
+      await expiring.can(alice, 'post:edit');
+      vi.advanceTimersByTime(999);
+      await expiring.can(alice, 'post:edit');
+      vi.advanceTimersByTime(1);
+      await expiring.can(alice, 'post:edit');
+
+      expect(expiring.cacheStats()?.decisions).toEqual({ hits: 1, misses: 2, size: 1 });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  describe('sessions', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should cache within a session even without an engine cache', async () => {
+      const uncached = new RBACEngine();
+      uncached.addRole({ name: 'editor', level: 50, permissions: ['post:*'] });
+
+      const policy = vi.fn(() => true);
+      uncached.addPolicy('post:edit', subjectOnly(policy));
+
+      const session = uncached.session();
+      await session.can(alice, 'post:edit');
+      await session.canAll(alice, ['post:edit', 'post:read']);
+      expect(await session.filter(alice, 'edit', [{ type: 'post' }])).toHaveLength(1);
+
+      expect(policy).toHaveBeenCalledTimes(2);
+      expect(session.stats()).toEqual({ hits: 1, misses: 3, size: 3 });
+
+      await uncached.can(alice, 'post:edit');
+      expect(policy).toHaveBeenCalledTimes(3);
+    });
+
+    it('should keep sessions independent of each other', async () => {
+      const first = engine.session();
+      const second = engine.session();
+
+      await first.can(alice, 'post:edit');
+      await second.can(alice, 'post:edit');
+
+      expect(first.stats().misses).toBe(1);
+      expect(second.stats().misses).toBe(1);
+    });
+
+    it('should ignore session entries from before a configuration change', async () => {
+      const session = engine.session();
+
+      expect((await session.can(alice, 'post:edit')).allowed).toBe(true);
+      engine.addPolicy('post:edit', () => false);
+      expect((await session.can(alice, 'post:edit')).allowed).toBe(false);
+    });
+
+    it('should answer canAny from the session', async () => {
+      const session = engine.session();
+      const result = await session.canAny(alice, ['user:read', 'post:read']);
+
+      expect(result.allowed).toBe(true);
+      expect(Object.keys(result.results)).toEqual(['user:read', 'post:read']);
+    });
+  });
+});
+
+describe('Cache', () => {
+  it('should evict the least recently used entry', () => {
+    const cache = new Cache<number>({ maxSize: 2 });
+
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.get('a');
+    cache.set('c', 3);
+
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('a')).toBe(1);
+    expect(cache.get('c')).toBe(3);
+    expect(cache.stats).toEqual({ hits: 3, misses: 1, size: 2 });
+  });
+
+  it('should read time from the given clock', () => {
+    let now = 0;
+    const cache = new Cache<string>({ ttl: 10 }, () => now);
+
+    cache.set('a', 'x');
+    now = 9;
+    expect(cache.get('a')).toBe('x');
+    now = 10;
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.stats.size).toBe(0);
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { RBACEngine } from '../src/engine/RBACEngine';
+import { Subject } from '../src/types';
+import { PolicyFn, allOf, anyOf, not, describePolicy } from '../src/policy';
+
+describe('Policy combinators', () => {
+  let engine: RBACEngine;
+
+  const isOwner: PolicyFn = ({ subject, context }) => context.ownerId === subject.id;
+  const isDraft: PolicyFn = ({ context }) => context.status === 'draft';
+  const isModerator: PolicyFn = ({ subject }) => subject.roles.includes('moderator');
+  const isLocked: PolicyFn = async ({ context }) => context.locked === true;
+
+  const author: Subject = { id: 'author-1', roles: ['author'], permissions: [] };
+
+  beforeEach(() => {
+    engine = new RBACEngine();
+
+    engine.addRole({
+      name: 'author',
+      level: 20,
+      permissions: ['post:read', 'post:edit']
+    });
+  });
+
+  describe('stacked policies', () => {
+    it('should keep earlier policies when adding another for the same permission', async () => {
+      engine.addPolicy('post:edit', isOwner);
+      engine.addPolicy('post:edit', isDraft);
+
+      const foreignDraft = await engine.can(author, 'post:edit', {
+        ownerId: 'author-2',
+        status: 'draft'
+      });
+      const ownPublished = await engine.can(author, 'post:edit', {
+        ownerId: 'author-1',
+        status: 'published'
+      });
+
+      expect(foreignDraft.allowed).toBe(false);
+      expect(foreignDraft.policy).toBe('isOwner');
+      expect(ownPublished.allowed).toBe(false);
+      expect(ownPublished.policy).toBe('isDraft');
+    });
+  });
+
+  describe('allOf', () => {
+    it('should pass only when every policy passes', async () => {
+      engine.addPolicy('post:edit', allOf(isOwner, isDraft));
+
+      const allowed = await engine.can(author, 'post:edit', {
+        ownerId: 'author-1',
+        status: 'draft'
+      });
+      const denied = await engine.can(author, 'post:edit', {
+        ownerId: 'author-1',
+        status: 'published'
+      });
+
+      expect(allowed.allowed).toBe(true);
+      expect(denied.allowed).toBe(false);
+      expect(denied.reason).toBe('Access denied by policy');
+      expect(denied.policy).toBe('isDraft');
+    });
+
+    it('should stop at the first failing policy', async () => {
+      let called = false;
+
+      engine.addPolicy(
+        'post:edit',
+        allOf(isOwner, () => {
+          called = true;
+          return true;
+        })
+      );
+
+      await engine.can(author, 'post:edit', { ownerId: 'author-2' });
+
+      expect(called).toBe(false);
+    });
+  });
+
+  describe('anyOf', () => {
+    it('should pass when at least one policy passes', async () => {
+      engine.addPolicy('post:edit', anyOf(isModerator, isOwner));
+
+      const result = await engine.can(author, 'post:edit', { ownerId: 'author-1' });
+
+      expect(result.allowed).toBe(true);
+    });
+
+    it('should report the whole group when no policy passes', async () => {
+      engine.addPolicy('post:edit', anyOf(isModerator, isOwner));
+
+      const result = await engine.can(author, 'post:edit', { ownerId: 'author-2' });
+
+      expect(result.allowed).toBe(false);
+      expect(result.policy).toBe('anyOf(isModerator, isOwner)');
+    });
+  });
+
+  describe('not', () => {
+    it('should invert an async policy', async () => {
+      engine.addPolicy('post:edit', not(isLocked));
+
+      const unlocked = await engine.can(author, 'post:edit', { locked: false });
+      const locked = await engine.can(author, 'post:edit', { locked: true });
+
+      expect(unlocked.allowed).toBe(true);
+      expect(locked.allowed).toBe(false);
+      expect(locked.policy).toBe('not(isLocked)');
+    });
+  });
+
+  describe('nesting', () => {
+    it('should report the failing sub-policy of nested combinators', async () => {
+      engine.addPolicy('post:edit', allOf(not(isLocked), anyOf(isModerator, isOwner)));
+
+      const locked = await engine.can(author, 'post:edit', {
+        ownerId: 'author-1',
+        locked: true
+      });
+      const foreign = await engine.can(author, 'post:edit', { ownerId: 'author-2' });
+      const own = await engine.can(author, 'post:edit', { ownerId: 'author-1' });
+
+      expect(locked.policy).toBe('not(isLocked)');
+      expect(foreign.policy).toBe('anyOf(isModerator, isOwner)');
+      expect(own.allowed).toBe(true);
+    });
+
+    it('should remain callable as plain policy functions', async () => {
+      const policy = allOf(isOwner, not(isLocked));
+
+      await expect(
+        policy({ subject: author, context: { ownerId: 'author-1' } })
+      ).resolves.toBe(true);
+      await expect(
+        policy({ subject: author, context: { ownerId: 'author-1', locked: true } })
+      ).resolves.toBe(false);
+    });
+  });
+
+  describe('describePolicy', () => {
+    it('should name anonymous policies', () => {
+      expect(describePolicy(anyOf(() => true, isDraft))).toBe(
+        'anyOf(anonymous, isDraft)'
+      );
+    });
+  });
+});
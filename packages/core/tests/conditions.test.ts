@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { RBACEngine } from '../src/engine/RBACEngine';
+import { Subject } from '../src/types';
+import { allOf } from '../src/policy';
+import {
+  condition,
+  conditionScope,
+  evaluateCondition,
+  parseCondition
+} from '../src/conditions';
+import { ConditionSyntaxError } from '../src/errors';
+import { loadDocument } from '../src/document';
+
+const check = (expression: string, subject: Subject, context = {}) =>
+  evaluateCondition(parseCondition(expression), conditionScope(subject, context));
+
+describe('Declarative conditions', () => {
+  const alice: Subject = {
+    id: 'alice',
+    roles: ['author', 'reviewer'],
+    attributes: { department: 'sales', level: 3, verified: true }
+  };
+
+  describe('evaluation', () => {
+    it('should compare subject fields with resource fields', () => {
+      expect(
+        check('subject.id == resource.ownerId', alice, { resource: { ownerId: 'alice' } })
+      ).toBe(true);
+      expect(
+        check('subject.id == resource.ownerId', alice, { resource: { ownerId: 'bob' } })
+      ).toBe(false);
+    });
+
+    it('should compare nested attributes', () => {
+      const expression = 'subject.attributes.department == resource.department';
+
+      expect(check(expression, alice, { resource: { department: 'sales' } })).toBe(true);
+      expect(check(expression, alice, { resource: { department: 'legal' } })).toBe(false);
+    });
+
+    it('should test inclusive numeric ranges', () => {
+      const expression = 'context.time.hour in [9..17]';
+
+      expect(check(expression, alice, { time: { hour: 9 } })).toBe(true);
+      expect(check(expression, alice, { time: { hour: 17 } })).toBe(true);
+      expect(check(expression, alice, { time: { hour: 18 } })).toBe(false);
+      expect(check(expression, alice, { time: { hour: '12' } })).toBe(false);
+    });
+
+    it('should test membership in lists and arrays', () => {
+      expect(check("context.region in ['eu', 'us']", alice, { region: 'eu' })).toBe(true);
+      expect(check("context.region not in ['eu', 'us']", alice, { region: 'apac' })).toBe(
+        true
+      );
+      expect(check("'reviewer' in subject.roles", alice)).toBe(true);
+      expect(check("'admin' in subject.roles", alice)).toBe(false);
+    });
+
+    it('should combine expressions with logical operators', () => {
+      expect(
+        check('subject.attributes.verified && subject.attributes.level >= 3', alice)
+      ).toBe(true);
+      expect(check('subject.attributes.level > 5 or subject.id == "alice"', alice)).toBe(
+        true
+      );
+      expect(check('not (subject.attributes.level < 3) and !context.locked', alice)).toBe(
+        true
+      );
+      expect(check('!subject.attributes.verified', alice)).toBe(false);
+    });
+
+    it('should only compare values of the same type', () => {
+      expect(check('subject.attributes.level == "3"', alice)).toBe(false);
+      expect(check('subject.attributes.level < "5"', alice)).toBe(false);
+      expect(check('context.score > -1', alice, { score: 0 })).toBe(true);
+    });
+
+    it('should treat missing values as undefined', () => {
+      expect(check('resource.ownerId == subject.id', alice)).toBe(false);
+      expect(check('context.a.b.c == null', alice, { a: 1 })).toBe(false);
+      expect(check('subject.attributes.missing', alice)).toBe(false);
+    });
+
+    it('should only read own properties', () => {
+      expect(check('subject.id.length == 5', alice)).toBe(false);
+      expect(check('subject.roles.length == 2', alice)).toBe(true);
+      expect(check('context.toString == null', alice)).toBe(false);
+    });
+  });
+
+  describe('parsing', () => {
+    it('should reject unknown identifiers', () => {
+      expect(() => parseCondition('process.env.SECRET == 1')).toThrow(
+        'Unknown identifier "process", expected subject, context, resource at position 0'
+      );
+    });
+
+    it('should reject prototype access', () => {
+      expect(() => parseCondition('subject.__proto__ == null')).toThrow(
+        ConditionSyntaxError
+      );
+      expect(() => parseCondition('subject.constructor == null')).toThrow(
+        ConditionSyntaxError
+      );
+    });
+
+    it('should reject function calls and malformed input', () => {
+      expect(() => parseCondition('subject.roles.includes("admin")')).toThrow(
+        ConditionSyntaxError
+      );
+      expect(() => parseCondition('subject.id ==')).toThrow('Unexpected end of input');
+      expect(() => parseCondition("subject.id == 'alice")).toThrow('Unterminated string');
+      expect(() => parseCondition('context.hour in [9..17')).toThrow('Expected "]"');
+    });
+
+    it('should report the position of the error', () => {
+      try {
+        parseCondition('subject.id = 1');
+      } catch (error) {
+        expect(error).toBeInstanceOf(ConditionSyntaxError);
+        expect((error as ConditionSyntaxError).position).toBe(11);
+      }
+    });
+  });
+
+  describe('engine integration', () => {
+    let engine: RBACEngine;
+
+    beforeEach(() => {
+      engine = new RBACEngine();
+      engine.addRole({ name: 'author', level: 20, permissions: ['post:*'] });
+    });
+
+    it('should register conditions through addPolicy', async () => {
+      engine.addPolicy('post:edit', 'subject.id == resource.ownerId');
+
+      const own = await engine.can(alice, 'post:edit', {
+        resource: { ownerId: 'alice' }
+      });
+      const foreign = await engine.can(alice, 'post:edit', {
+        resource: { ownerId: 'bob' }
+      });
+
+      expect(own.allowed).toBe(true);
+      expect(foreign.allowed).toBe(false);
+      expect(foreign.policy).toBe('subject.id == resource.ownerId');
+    });
+
+    it('should reject malformed conditions at registration', () => {
+      expect(() => engine.addPolicy('post:edit', 'subject.id ===')).toThrow(
+        ConditionSyntaxError
+      );
+    });
+
+    it('should compose conditions with policy functions', async () => {
+      engine.addPolicy(
+        'post:edit',
+        allOf(
+          condition('context.time.hour in [9..17]'),
+          ({ context }) => context.locked !== true
+        )
+      );
+
+      const result = await engine.can(alice, 'post:edit', { time: { hour: 20 } });
+
+      expect(result.policy).toBe('context.time.hour in [9..17]');
+    });
+
+    it('should export and load conditions with policy documents', async () => {
+      engine.addPolicy('post:edit', 'subject.id == resource.ownerId');
+      engine.addPolicy('post:delete', () => false);
+
+      const document = engine.toDocument();
+
+      expect(document.policies).toEqual([
+        { permission: 'post:edit', condition: 'subject.id == resource.ownerId' }
+      ]);
+
+      const copy = new RBACEngine();
+      loadDocument(copy, document);
+
+      const result = await copy.can(alice, 'post:edit', { resource: { ownerId: 'bob' } });
+
+      expect(result.allowed).toBe(false);
+    });
+
+    it('should report condition syntax errors in documents', () => {
+      expect(() =>
+        loadDocument(new RBACEngine(), {
+          version: 1,
+          roles: [],
+          policies: [{ permission: 'post:edit', condition: 'subject.id ==' }]
+        })
+      ).toThrow('/policies/0/condition: Unexpected end of input');
+    });
+  });
+});
@@ -0,0 +1,201 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { RBACEngine } from '../src/engine/RBACEngine';
+import { Subject } from '../src/types';
+import { RoleNotFoundError, RoleValidationError } from '../src/errors';
+
+describe('Role and policy management', () => {
+  let engine: RBACEngine;
+
+  const alice: Subject = { id: 'alice', roles: ['editor'] };
+
+  beforeEach(() => {
+    engine = new RBACEngine();
+
+    engine.addRole({ name: 'viewer', level: 10, permissions: ['post:read'] });
+    engine.addRole({
+      name: 'editor',
+      level: 50,
+      permissions: ['post:edit'],
+      inherits: ['viewer']
+    });
+  });
+
+  describe('roles', () => {
+    it('should get and list copies of roles', () => {
+      const role = engine.getRole('viewer')!;
+      role.permissions.push('post:delete');
+
+      expect(engine.getRole('viewer')).toEqual({
+        name: 'viewer',
+        level: 10,
+        permissions: ['post:read']
+      });
+      expect(engine.getRole('missing')).toBeUndefined();
+      expect(engine.listRoles().map((role) => role.name)).toEqual(['viewer', 'editor']);
+    });
+
+    it('should update existing roles', async () => {
+      engine.updateRole({ name: 'viewer', level: 10, permissions: ['post:list'] });
+
+      expect((await engine.can(alice, 'post:read')).allowed).toBe(false);
+      expect((await engine.can(alice, 'post:list')).allowed).toBe(true);
+    });
+
+    it('should refuse to update unknown roles', () => {
+      expect(() =>
+        engine.updateRole({ name: 'ghost', level: 1, permissions: [] })
+      ).toThrow(RoleNotFoundError);
+      expect(engine.getRole('ghost')).toBeUndefined();
+    });
+
+    it('should remove roles', async () => {
+      expect(engine.removeRole('viewer')).toBe(true);
+      expect(engine.removeRole('viewer')).toBe(false);
+
+      expect((await engine.can(alice, 'post:read')).allowed).toBe(false);
+      expect((await engine.can(alice, 'post:edit')).allowed).toBe(true);
+      expect(engine.toDocument().roles.map((role) => role.name)).toEqual(['editor']);
+    });
+
+    it('should refuse to remove inherited roles in strict mode', () => {
+      const strict = new RBACEngine({ strict: true });
+      strict.addRole({ name: 'viewer', level: 10, permissions: [] });
+      strict.addRole({
+        name: 'editor',
+        level: 50,
+        permissions: [],
+        inherits: ['viewer']
+      });
+
+      expect(() => strict.removeRole('viewer')).toThrow(RoleValidationError);
+      expect(() => strict.removeRole('viewer')).toThrow(
+        'Role "editor" inherits unknown role "viewer"'
+      );
+      expect(strict.removeRole('editor')).toBe(true);
+      expect(strict.removeRole('viewer')).toBe(true);
+    });
+
+    it('should invalidate cached decisions', async () => {
+      const cached = new RBACEngine({ cache: true });
+      cached.addRole({ name: 'editor', level: 50, permissions: ['post:edit'] });
+
+      expect((await cached.can(alice, 'post:edit')).allowed).toBe(true);
+      cached.removeRole('editor');
+      expect((await cached.can(alice, 'post:edit')).allowed).toBe(false);
+    });
+  });
+
+  describe('policies', () => {
+    it('should remove every policy under a pattern', async () => {
+      engine.addPolicy('post:edit', () => false);
+      engine.addPolicy('post:edit', 'subject.id == "bob"');
+      engine.addPolicy('post:*', () => true);
+
+      expect(engine.removePolicy('post:edit')).toBe(2);
+      expect(engine.removePolicy('post:edit')).toBe(0);
+      expect((await engine.can(alice, 'post:edit')).allowed).toBe(true);
+    });
+
+    it('should remove a single policy function', async () => {
+      const deny = () => false;
+      const allow = () => true;
+      engine.addPolicy('post:edit', deny);
+      engine.addPolicy('post:edit', allow);
+
+      expect(engine.removePolicy('post:edit', deny)).toBe(1);
+      expect((await engine.can(alice, 'post:edit')).allowed).toBe(true);
+    });
+
+    it('should remove conditions by their source', async () => {
+      engine.addPolicy('post:edit', 'subject.id == "bob"');
+      engine.addPolicy('post:edit', 'subject.id == "alice"');
+
+      expect(engine.removePolicy('post:edit', 'subject.id == "bob"')).toBe(1);
+      expect(engine.toDocument().policies).toEqual([
+        { permission: 'post:edit', condition: 'subject.id == "alice"' }
+      ]);
+    });
+  });
+
+  describe('events', () => {
+    it('should emit role changes with copies of the roles', () => {
+      const added = vi.fn();
+      const updated = vi.fn();
+      const removed = vi.fn();
+
+      engine.on('roleAdded', added);
+      engine.on('roleUpdated', updated);
+      engine.on('roleRemoved', removed);
+
+      engine.addRole({ name: 'admin', level: 100, permissions: ['**'] });
+      engine.updateRole({ name: 'admin', level: 90, permissions: ['**'] });
+      engine.addRole({ name: 'admin', level: 80, permissions: ['**'] });
+      engine.removeRole('admin');
+
+      expect(added).toHaveBeenCalledWith({
+        role: { name: 'admin', level: 100, permissions: ['**'] }
+      });
+      expect(updated).toHaveBeenCalledTimes(2);
+      expect(updated.mock.calls[0][0]).toEqual({
+        role: { name: 'admin', level: 90, permissions: ['**'] },
+        previous: { name: 'admin', level: 100, permissions: ['**'] }
+      });
+      expect(removed).toHaveBeenCalledWith({
+        role: { name: 'admin', level: 80, permissions: ['**'] }
+      });
+    });
+
+    it('should emit policy changes', () => {
+      const changed = vi.fn();
+      engine.on('policyChanged', changed);
+
+      const ownsPost = () => true;
+      engine.addPolicy('post:edit', ownsPost);
+      engine.addPolicy('post:read', 'context.public');
+      engine.removePolicy('post:read');
+
+      expect(changed.mock.calls.map(([change]) => change)).toEqual([
+        { type: 'added', pattern: 'post:edit', policy: 'ownsPost' },
+        {
+          type: 'added',
+          pattern: 'post:read',
+          policy: 'context.public',
+          condition: 'context.public'
+        },
+        {
+          type: 'removed',
+          pattern: 'post:read',
+          policy: 'context.public',
+          condition: 'context.public'
+        }
+      ]);
+    });
+
+    it('should not emit for operations that change nothing', () => {
+      const listener = vi.fn();
+      engine.on('roleRemoved', listener);
+      engine.on('policyChanged', listener);
+
+      engine.removeRole('ghost');
+      engine.removePolicy('post:edit');
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should unsubscribe listeners', () => {
+      const listener = vi.fn();
+      const unsubscribe = engine.on('roleAdded', listener);
+
+      engine.addRole({ name: 'a', level: 1, permissions: [] });
+      unsubscribe();
+      engine.addRole({ name: 'b', level: 1, permissions: [] });
+
+      engine.on('roleAdded', listener);
+      engine.off('roleAdded', listener);
+      engine.addRole({ name: 'c', level: 1, permissions: [] });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { RBACEngine } from '../src/engine/RBACEngine';
+import { Subject } from '../src/types';
+
+describe('Role denies', () => {
+  let engine: RBACEngine;
+
+  beforeEach(() => {
+    engine = new RBACEngine();
+
+    engine.addRole({
+      name: 'viewer',
+      level: 10,
+      permissions: ['post:read', 'comment:read']
+    });
+
+    engine.addRole({
+      name: 'editor',
+      level: 50,
+      permissions: ['post:*'],
+      inherits: ['viewer'],
+      denies: ['post:delete']
+    });
+
+    engine.addRole({
+      name: 'admin',
+      level: 100,
+      permissions: ['**'],
+      inherits: ['editor']
+    });
+
+    engine.addRole({
+      name: 'suspended',
+      level: 0,
+      permissions: [],
+      denies: ['**']
+    });
+  });
+
+  it('should deny a permission the role grants through a wildcard', async () => {
+    const subject: Subject = { id: '1', roles: ['editor'] };
+
+    const result = await engine.can(subject, 'post:delete');
+
+    expect(result.allowed).toBe(false);
+    expect(result.reason).toBe(
+      'Permission denied by role "editor" (deny pattern "post:delete")'
+    );
+  });
+
+  it('should still allow permissions that are not denied', async () => {
+    const subject: Subject = { id: '1', roles: ['editor'] };
+
+    await expect(engine.can(subject, 'post:edit')).resolves.toMatchObject({
+      allowed: true
+    });
+    await expect(engine.can(subject, 'comment:read')).resolves.toMatchObject({
+      allowed: true
+    });
+  });
+
+  it('should inherit denies through role inheritance', async () => {
+    const subject: Subject = { id: '1', roles: ['admin'] };
+
+    const result = await engine.can(subject, 'post:delete');
+
+    expect(result.allowed).toBe(false);
+    expect(result.reason).toContain('"editor"');
+  });
+
+  it('should override grants from other roles', async () => {
+    engine.addRole({
+      name: 'cleaner',
+      level: 20,
+      permissions: ['post:delete']
+    });
+
+    const subject: Subject = { id: '1', roles: ['editor', 'cleaner'] };
+
+    const result = await engine.can(subject, 'post:delete');
+
+    expect(result.allowed).toBe(false);
+  });
+
+  it('should override direct subject permissions', async () => {
+    const subject: Subject = {
+      id: '1',
+      roles: ['suspended'],
+      permissions: ['post:read']
+    };
+
+    const result = await engine.can(subject, 'post:read');
+
+    expect(result.allowed).toBe(false);
+    expect(result.reason).toBe(
+      'Permission denied by role "suspended" (deny pattern "**")'
+    );
+  });
+
+  it('should match deny patterns with single wildcards', async () => {
+    engine.addRole({
+      name: 'readonly',
+      level: 5,
+      permissions: ['**'],
+      denies: ['*:write', '*:delete']
+    });
+
+    const subject: Subject = { id: '1', roles: ['readonly'] };
+
+    expect((await engine.can(subject, 'post:write')).allowed).toBe(false);
+    expect((await engine.can(subject, 'user:delete')).allowed).toBe(false);
+    expect((await engine.can(subject, 'user:read')).allowed).toBe(true);
+  });
+
+  it('should not run policies when a deny matches', async () => {
+    let policyCalled = false;
+
+    engine.addPolicy('post:delete', () => {
+      policyCalled = true;
+      return true;
+    });
+
+    const subject: Subject = { id: '1', roles: ['editor'] };
+
+    await engine.can(subject, 'post:delete');
+
+    expect(policyCalled).toBe(false);
+  });
+});
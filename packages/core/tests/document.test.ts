@@ -0,0 +1,235 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { RBACEngine } from '../src/engine/RBACEngine';
+import { Permission } from '../src/permissions';
+import {
+  loadDocument,
+  parseDocument,
+  policyDocumentSchema,
+  serializeDocument,
+  validateDocument
+} from '../src/document';
+import { DocumentValidationError } from '../src/errors';
+
+const yamlDocument = `
+version: 1
+permissions:
+  - name: post:read
+    description: Read posts
+  - name: post:edit
+roles:
+  - name: viewer
+    level: 10
+    permissions: [post:read]
+  - name: editor
+    level: 50
+    permissions: ['post:*']
+    inherits: [viewer]
+    denies: [post:delete]
+`;
+
+describe('Policy documents', () => {
+  let engine: RBACEngine;
+
+  beforeEach(() => {
+    engine = new RBACEngine();
+  });
+
+  describe('loadDocument', () => {
+    it('should register roles from a YAML document', async () => {
+      loadDocument(engine, yamlDocument);
+
+      const editor = { id: '1', roles: ['editor'] };
+
+      expect((await engine.can(editor, 'post:read')).allowed).toBe(true);
+      expect((await engine.can(editor, 'post:edit')).allowed).toBe(true);
+      expect((await engine.can(editor, 'post:delete')).allowed).toBe(false);
+    });
+
+    it('should register roles from a JSON document', async () => {
+      loadDocument(
+        engine,
+        JSON.stringify({
+          version: 1,
+          roles: [{ name: 'viewer', level: 10, permissions: ['post:read'] }]
+        })
+      );
+
+      expect(
+        (await engine.can({ id: '1', roles: ['viewer'] }, 'post:read')).allowed
+      ).toBe(true);
+    });
+
+    it('should accept an already parsed document', () => {
+      const document = loadDocument(engine, {
+        version: 1,
+        roles: [{ name: 'viewer', level: 10, permissions: [] }]
+      });
+
+      expect(document.roles).toHaveLength(1);
+    });
+
+    it('should throw with every issue and its path', () => {
+      const load = () =>
+        loadDocument(engine, {
+          version: 1,
+          roles: [
+            { name: 'viewer', level: 10, permissions: ['post:'] },
+            { name: 'viewer', level: 20, permissions: [], inherits: ['ghost'] }
+          ]
+        });
+
+      expect(load).toThrow(DocumentValidationError);
+
+      try {
+        load();
+      } catch (error) {
+        expect((error as DocumentValidationError).issues).toEqual([
+          {
+            path: '/roles/0/permissions/0',
+            message: 'Permission pattern "post:" has an empty segment'
+          },
+          { path: '/roles/1/name', message: 'Duplicate role "viewer"' },
+          { path: '/roles/1/inherits/0', message: 'Unknown role "ghost"' }
+        ]);
+      }
+    });
+
+    it('should not register anything when the document is invalid', async () => {
+      expect(() =>
+        loadDocument(engine, {
+          version: 1,
+          roles: [
+            { name: 'viewer', level: 10, permissions: ['post:read'] },
+            { name: 'editor', level: 'high', permissions: [] }
+          ]
+        })
+      ).toThrow(DocumentValidationError);
+
+      expect(engine.toDocument().roles).toEqual([]);
+    });
+
+    it('should report parse errors at the document root', () => {
+      expect(() => loadDocument(engine, '{ "version": 1,')).toThrow(
+        /Unable to parse json/
+      );
+    });
+  });
+
+  describe('validateDocument', () => {
+    it('should accept a valid document', () => {
+      expect(validateDocument(parseDocument(yamlDocument))).toEqual([]);
+    });
+
+    it('should reject unknown properties and unsupported versions', () => {
+      expect(
+        validateDocument({
+          version: 2,
+          roles: [{ name: 'viewer', level: 1, permissions: [], extends: ['x'] }],
+          rules: []
+        })
+      ).toEqual([
+        { path: '/rules', message: 'Unknown property' },
+        { path: '/version', message: 'Unsupported document version, expected 1' },
+        { path: '/roles/0/extends', message: 'Unknown property' }
+      ]);
+    });
+
+    it('should reject malformed permission patterns', () => {
+      expect(
+        validateDocument({
+          version: 1,
+          permissions: [{ name: 'post:read' }, { name: 'post:read' }],
+          roles: [
+            { name: 'viewer', level: 1, permissions: ['a:**:b', 'po st'], denies: 1 }
+          ]
+        })
+      ).toEqual([
+        { path: '/permissions/1/name', message: 'Duplicate permission "post:read"' },
+        {
+          path: '/roles/0/permissions/0',
+          message: 'Permission pattern "a:**:b" may only use "**" as its last segment'
+        },
+        {
+          path: '/roles/0/permissions/1',
+          message: 'Permission pattern "po st" must not contain whitespace'
+        },
+        { path: '/roles/0/denies', message: 'Must be an array of permission patterns' }
+      ]);
+    });
+
+    it('should reject documents that are not objects', () => {
+      expect(validateDocument([])).toEqual([
+        { path: '', message: 'UniRBAC policy document must be an object' }
+      ]);
+    });
+
+    it('should report missing and mistyped fields', () => {
+      expect(
+        validateDocument({
+          version: 1,
+          permissions: ['post:read'],
+          roles: [{ name: '', level: Infinity, inherits: 'viewer' }],
+          policies: [{ permission: 'post:read', condition: 1 }]
+        })
+      ).toEqual([
+        { path: '/permissions/0', message: 'Permission must be an object' },
+        { path: '/roles/0/permissions', message: 'Required' },
+        { path: '/roles/0/name', message: 'Must be a non-empty string' },
+        { path: '/roles/0/level', message: 'Must be a number' },
+        { path: '/roles/0/inherits', message: 'Must be an array of role names' },
+        { path: '/policies/0/condition', message: 'Must be a non-empty string' }
+      ]);
+    });
+  });
+
+  describe('toDocument', () => {
+    it('should export the engine state in document format', () => {
+      loadDocument(engine, yamlDocument);
+
+      expect(engine.toDocument()).toEqual(parseDocument(yamlDocument));
+    });
+
+    it('should round-trip through serialization', () => {
+      loadDocument(engine, yamlDocument);
+
+      for (const format of ['json', 'yaml'] as const) {
+        const copy = new RBACEngine();
+        loadDocument(copy, serializeDocument(engine.toDocument(), format), format);
+
+        expect(copy.toDocument()).toEqual(engine.toDocument());
+      }
+    });
+  });
+
+  describe('JSON Schema', () => {
+    it('should accept every pattern the permission grammar accepts', () => {
+      const pattern = new RegExp(policyDocumentSchema.$defs.pattern.pattern);
+
+      for (const candidate of [
+        'post:read',
+        'post.read',
+        'post:*',
+        '*:read',
+        'admin:**',
+        '**',
+        'post:edit-*',
+        'post:{read,edit}',
+        'file:a\\:b'
+      ]) {
+        expect(Permission.validate(candidate)).toBeUndefined();
+        expect(pattern.test(candidate)).toBe(true);
+      }
+
+      for (const candidate of ['', 'po st', ' post:read']) {
+        expect(pattern.test(candidate)).toBe(false);
+      }
+    });
+
+    it('should publish the schema the validator checks against', async () => {
+      await expect(
+        `${JSON.stringify(policyDocumentSchema, null, 2)}\n`
+      ).toMatchFileSnapshot('../schema/policy-document.schema.json');
+    });
+  });
+});
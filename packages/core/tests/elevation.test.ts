@@ -0,0 +1,227 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { RBACEngine } from '../src/engine/RBACEngine';
+import { refuseElevated } from '../src/engine';
+import { Subject } from '../src/types';
+import { ElevationError, RoleNotFoundError } from '../src/errors';
+
+describe('Break-glass elevation', () => {
+  let engine: RBACEngine;
+  let now: number;
+
+  const HOUR = 60 * 60 * 1000;
+  const alice: Subject = { id: 'alice', roles: ['responder'] };
+  const request = { role: 'admin', justification: 'INC-1234', duration: HOUR };
+
+  beforeEach(() => {
+    now = Date.parse('2026-03-04T12:00:00Z');
+    engine = new RBACEngine({
+      now: () => now,
+      cache: true,
+      elevation: { eligible: (subject) => subject.roles.includes('responder') }
+    });
+
+    engine.addRole({ name: 'responder', level: 30, permissions: ['incident:*'] });
+    engine.addRole({
+      name: 'admin',
+      level: 90,
+      permissions: ['user:*', 'incident:*'],
+      inherits: ['responder']
+    });
+  });
+
+  it('should grant the role until the elevation expires', async () => {
+    expect((await engine.can(alice, 'user:delete')).allowed).toBe(false);
+
+    const elevation = await engine.elevate(alice, request);
+    const result = await engine.can(alice, 'user:delete');
+
+    expect(elevation).toMatchObject({
+      subject: 'alice',
+      role: 'admin',
+      justification: 'INC-1234',
+      grantedAt: '2026-03-04T12:00:00.000Z',
+      expiresAt: '2026-03-04T13:00:00.000Z'
+    });
+    expect(result).toEqual({
+      allowed: true,
+      permission: 'user:delete',
+      elevation: elevation.id
+    });
+    expect(await engine.levelOf(alice)).toBe(90);
+    expect(await engine.levelOf(alice, undefined, false)).toBe(30);
+
+    now += HOUR;
+
+    expect((await engine.can(alice, 'user:delete')).allowed).toBe(false);
+    expect(engine.listElevations('alice')).toEqual([]);
+  });
+
+  it('should prefer standing grants over elevated ones', async () => {
+    await engine.elevate(alice, request);
+
+    const result = await engine.can(alice, 'incident:close');
+
+    expect(result).toEqual({ allowed: true, permission: 'incident:close' });
+  });
+
+  it('should let policies refuse elevated grants', async () => {
+    engine.addPolicy('user:delete', refuseElevated);
+    engine.addPolicy('incident:purge', '!context.elevation');
+
+    const elevation = await engine.elevate(alice, request);
+
+    expect(await engine.can(alice, 'user:delete')).toEqual({
+      allowed: false,
+      permission: 'user:delete',
+      reason: 'Access denied by policy',
+      policy: 'refuseElevated',
+      elevation: elevation.id
+    });
+    expect((await engine.can(alice, 'user:read')).allowed).toBe(true);
+    expect((await engine.can(alice, 'incident:purge')).allowed).toBe(true);
+  });
+
+  it('should pass the elevation to policies', async () => {
+    const policy = vi.fn(() => true);
+    engine.addPolicy('user:*', policy);
+
+    const elevation = await engine.elevate(alice, request);
+    await engine.can(alice, 'user:read', { ticket: 'INC-1234' });
+
+    expect(policy).toHaveBeenCalledWith({
+      subject: alice,
+      context: {
+        ticket: 'INC-1234',
+        elevation: {
+          id: elevation.id,
+          role: 'admin',
+          justification: 'INC-1234',
+          expiresAt: '2026-03-04T13:00:00.000Z'
+        }
+      }
+    });
+  });
+
+  it('should validate elevation requests', async () => {
+    await expect(new RBACEngine().elevate(alice, request)).rejects.toThrow(
+      'Elevation is not enabled for this engine'
+    );
+    await expect(engine.elevate(alice, { ...request, role: 'root' })).rejects.toThrow(
+      RoleNotFoundError
+    );
+    await expect(
+      engine.elevate(alice, { ...request, justification: ' ' })
+    ).rejects.toThrow('Elevation to role "admin" requires a justification');
+    await expect(
+      engine.elevate(alice, { ...request, duration: 2 * HOUR })
+    ).rejects.toThrow(`Elevation to role "admin" must last between 1 and ${HOUR} ms`);
+    await expect(
+      engine.elevate(alice, { ...request, role: 'responder' })
+    ).rejects.toThrow(
+      'Role "responder" does not outrank the standing roles of subject "alice"'
+    );
+  });
+
+  it('should refuse subjects that are not eligible', async () => {
+    const bob: Subject = { id: 'bob', roles: [] };
+
+    const error = await engine.elevate(bob, request).catch((error) => error);
+
+    expect(error).toBeInstanceOf(ElevationError);
+    expect(error.role).toBe('admin');
+    expect(error.message).toBe(
+      'Subject "bob" is not eligible for elevation to role "admin"'
+    );
+    expect(engine.listElevations()).toEqual([]);
+  });
+
+  it('should emit events when elevations are granted and revoked', async () => {
+    const granted = vi.fn();
+    const revoked = vi.fn();
+    engine.on('elevationGranted', granted);
+    engine.on('elevationRevoked', revoked);
+
+    const first = await engine.elevate(alice, request);
+    const second = await engine.elevate(alice, { ...request, duration: HOUR / 2 });
+
+    expect(granted).toHaveBeenCalledWith({ elevation: first });
+    expect(engine.revokeElevation(first.id)).toBe(true);
+    expect(engine.revokeElevation(first.id)).toBe(false);
+    expect(revoked).toHaveBeenCalledWith({ elevation: first, reason: 'revoked' });
+
+    now += HOUR / 2;
+
+    expect(engine.listElevations()).toEqual([]);
+    expect(revoked).toHaveBeenLastCalledWith({ elevation: second, reason: 'expired' });
+    expect(revoked).toHaveBeenCalledTimes(2);
+  });
+
+  it('should revoke expired elevations when their duration runs out', async () => {
+    vi.useFakeTimers();
+
+    try {
+      const revoked = vi.fn();
+      engine.on('elevationRevoked', revoked);
+
+      const elevation = await engine.elevate(alice, request);
+      now += HOUR;
+      vi.advanceTimersByTime(HOUR);
+
+      expect(revoked).toHaveBeenCalledWith({ elevation, reason: 'expired' });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should keep checking for expiry when timers fire early', async () => {
+    vi.useFakeTimers();
+
+    try {
+      const revoked = vi.fn();
+      engine.on('elevationRevoked', revoked);
+
+      const elevation = await engine.elevate(alice, request);
+      vi.advanceTimersByTime(HOUR);
+
+      expect(revoked).not.toHaveBeenCalled();
+
+      now += HOUR;
+      vi.advanceTimersByTime(HOUR);
+
+      expect(revoked).toHaveBeenCalledWith({ elevation, reason: 'expired' });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should show elevated roles in explanations', async () => {
+    const elevation = await engine.elevate(alice, request);
+
+    const { authorization, trace } = await engine.explain(alice, 'user:delete');
+
+    expect(authorization.elevation).toBe(elevation.id);
+    expect(trace.roles).toEqual([
+      { name: 'admin', level: 90, path: ['admin'], elevation: elevation.id },
+      { name: 'responder', level: 30, path: ['responder'] }
+    ]);
+  });
+
+  it('should limit scoped elevations to their scope', async () => {
+    await engine.elevate(alice, { ...request, scope: 'org:acme' });
+
+    expect((await engine.can(alice, 'user:delete')).allowed).toBe(false);
+    expect((await engine.can(alice, 'user:delete', { scope: 'org:acme' })).allowed).toBe(
+      true
+    );
+  });
+
+  it('should expire snapshots with the elevation', async () => {
+    await engine.elevate(alice, request);
+
+    const snapshot = await engine.snapshot(alice);
+
+    expect(snapshot.grants).toContain('user:*');
+    expect(snapshot.validUntil).toBe('2026-03-04T13:00:00.000Z');
+  });
+});
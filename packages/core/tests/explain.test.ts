@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { RBACEngine } from '../src/engine/RBACEngine';
+import { Subject } from '../src/types';
+import { PolicyFn, anyOf } from '../src/policy';
+
+describe('RBACEngine.explain', () => {
+  let engine: RBACEngine;
+
+  beforeEach(() => {
+    engine = new RBACEngine();
+
+    engine.addRole({
+      name: 'viewer',
+      level: 10,
+      permissions: ['post:read', 'comment:*']
+    });
+
+    engine.addRole({
+      name: 'editor',
+      level: 50,
+      permissions: ['post:edit'],
+      inherits: ['viewer'],
+      denies: ['post:delete']
+    });
+
+    engine.addRole({
+      name: 'admin',
+      level: 100,
+      permissions: ['post:**'],
+      inherits: ['editor']
+    });
+  });
+
+  it('should return the same authorization as can', async () => {
+    const subject: Subject = { id: '1', roles: ['editor'] };
+
+    const { authorization } = await engine.explain(subject, 'post:delete');
+
+    expect(authorization).toEqual(await engine.can(subject, 'post:delete'));
+  });
+
+  it('should list resolved roles with their inheritance path', async () => {
+    const subject: Subject = { id: '1', roles: ['admin'] };
+
+    const { trace } = await engine.explain(subject, 'post:read');
+
+    expect(trace.roles).toEqual([
+      { name: 'admin', level: 100, path: ['admin'] },
+      { name: 'editor', level: 50, path: ['admin', 'editor'] },
+      { name: 'viewer', level: 10, path: ['admin', 'editor', 'viewer'] }
+    ]);
+  });
+
+  it('should list every tested grant with its source and match result', async () => {
+    const subject: Subject = { id: '1', roles: ['editor'], permissions: ['post:*'] };
+
+    const { authorization, trace } = await engine.explain(subject, 'post:read');
+
+    expect(authorization.allowed).toBe(true);
+    expect(trace.grants).toEqual([
+      { pattern: 'post:edit', source: { type: 'role', role: 'editor' }, matched: false },
+      { pattern: 'post:read', source: { type: 'role', role: 'viewer' }, matched: true },
+      { pattern: 'comment:*', source: { type: 'role', role: 'viewer' }, matched: false },
+      { pattern: 'post:*', source: { type: 'subject' }, matched: true }
+    ]);
+  });
+
+  it('should record the deny rule that blocked the request', async () => {
+    const subject: Subject = { id: '1', roles: ['admin'] };
+
+    const { authorization, trace } = await engine.explain(subject, 'post:delete');
+
+    expect(authorization.allowed).toBe(false);
+    expect(trace.denies).toEqual([
+      {
+        pattern: 'post:delete',
+        source: { type: 'role', role: 'editor' },
+        matched: true
+      }
+    ]);
+    expect(trace.grants).toEqual([]);
+  });
+
+  it('should record every policy that ran with its result', async () => {
+    const isOwner: PolicyFn = ({ subject, context }) => context.ownerId === subject.id;
+    const isModerator: PolicyFn = ({ subject }) => subject.roles.includes('moderator');
+
+    engine.addPolicy('post:*', function notArchived({ context }) {
+      return context.archived !== true;
+    });
+    engine.addPolicy('post:edit', anyOf(isModerator, isOwner));
+    engine.addPolicy('comment:*', () => false);
+
+    const subject: Subject = { id: '1', roles: ['editor'] };
+
+    const { authorization, trace } = await engine.explain(subject, 'post:edit', {
+      ownerId: '2'
+    });
+
+    expect(authorization.allowed).toBe(false);
+    expect(trace.policies).toEqual([
+      { pattern: 'post:*', policy: 'notArchived', passed: true },
+      {
+        pattern: 'post:edit',
+        policy: 'anyOf(isModerator, isOwner)',
+        passed: false,
+        failed: 'anyOf(isModerator, isOwner)'
+      }
+    ]);
+  });
+
+  it('should explain a missing permission with an empty match list', async () => {
+    const subject: Subject = { id: '1', roles: ['unknown'] };
+
+    const { authorization, trace } = await engine.explain(subject, 'post:read');
+
+    expect(authorization.reason).toBe(
+      'Permission not found in subject roles/permissions'
+    );
+    expect(trace.roles).toEqual([]);
+    expect(trace.grants).toEqual([]);
+    expect(trace.policies).toEqual([]);
+  });
+});
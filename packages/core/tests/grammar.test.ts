@@ -0,0 +1,199 @@
+import { describe, it, expect } from 'vitest';
+
+import { RBACEngine } from '../src/engine/RBACEngine';
+import { Permission, PermissionGrammar, PermissionIndex } from '../src/permissions';
+import { InvalidPermissionError } from '../src/errors';
+
+describe('PermissionGrammar', () => {
+  describe('default syntax', () => {
+    const grammar = new PermissionGrammar();
+
+    it('should wildcard-match dotted permissions', () => {
+      expect(Permission.match('post.*', 'post.edit')).toBe(true);
+      expect(Permission.match('post.**', 'post.comments.delete')).toBe(true);
+      expect(Permission.match('*.read', 'user.read')).toBe(true);
+      expect(Permission.match('post.*', 'user.edit')).toBe(false);
+    });
+
+    it('should treat ":" and "." as equivalent separators', () => {
+      expect(Permission.match('post:*', 'post.edit')).toBe(true);
+    });
+
+    it('should match partial-segment globs', () => {
+      expect(Permission.match('post:edit-*', 'post:edit-title')).toBe(true);
+      expect(Permission.match('post:edit-*', 'post:edit-')).toBe(true);
+      expect(Permission.match('post:*-draft', 'post:edit-draft')).toBe(true);
+      expect(Permission.match('post:edit-*', 'post:delete')).toBe(false);
+      expect(Permission.match('post:edit-*', 'post:edit-title:now')).toBe(false);
+    });
+
+    it('should match alternations', () => {
+      expect(Permission.match('post:{read,edit}', 'post:read')).toBe(true);
+      expect(Permission.match('post:{read,edit}', 'post:edit')).toBe(true);
+      expect(Permission.match('post:{read,edit}', 'post:delete')).toBe(false);
+      expect(Permission.match('{post,page}:{read,edit}-*', 'page:edit-body')).toBe(true);
+    });
+
+    it('should escape literal separators and special characters', () => {
+      expect(grammar.split('file:a\\:b:read')).toEqual(['file', 'a:b', 'read']);
+      expect(Permission.match('file:a\\:b:*', 'file:a\\:b:read')).toBe(true);
+      expect(Permission.match('file:a\\:b:*', 'file:a:b:read')).toBe(false);
+      expect(Permission.match('file:\\*', 'file:*')).toBe(true);
+      expect(Permission.match('file:\\*', 'file:x')).toBe(false);
+      expect(Permission.match('version:1\\.2', 'version:1\\.2')).toBe(true);
+    });
+
+    it('should parse patterns into segments', () => {
+      expect(grammar.parse('post:*:edit-{a,b}:**')).toEqual([
+        { type: 'literal', value: 'post' },
+        { type: 'any' },
+        { type: 'glob', source: 'edit-(?:a|b)', regex: /^edit-(?:a|b)$/s },
+        { type: 'rest' }
+      ]);
+    });
+
+    it('should reject malformed patterns', () => {
+      const invalid: Record<string, string> = {
+        '': 'Permission pattern must not be empty',
+        'post:': 'Permission pattern "post:" has an empty segment',
+        'post::edit': 'Permission pattern "post::edit" has an empty segment',
+        'a:**:b': 'Permission pattern "a:**:b" may only use "**" as its last segment',
+        'a:edit-**':
+          'Permission pattern "a:edit-**" may only use "**" as a whole segment',
+        'post:{read': 'Permission pattern "post:{read" has an unterminated "{"',
+        'post:{read,}':
+          'Permission pattern "post:{read,}" has an empty alternative in "{...}"',
+        'post:{a,{b}}':
+          'Permission pattern "post:{a,{b}}" may not use "{" inside "{...}"',
+        'post:read}': 'Permission pattern "post:read}" has an unexpected "}"',
+        'post:read\\': 'Permission pattern "post:read\\" ends with a dangling escape',
+        'post: read': 'Permission pattern "post: read" must not contain whitespace'
+      };
+
+      for (const [pattern, message] of Object.entries(invalid)) {
+        expect(() => grammar.parse(pattern)).toThrow(InvalidPermissionError);
+        expect(grammar.validate(pattern)).toBe(message);
+      }
+    });
+  });
+
+  describe('custom syntax', () => {
+    it('should split on the configured separators only', () => {
+      const grammar = new PermissionGrammar({ separators: ['/'] });
+
+      expect(grammar.match('posts/*', 'posts/edit')).toBe(true);
+      expect(grammar.match('posts/*', 'posts/edit.v2')).toBe(true);
+      expect(grammar.match('posts/*', 'posts:edit')).toBe(false);
+    });
+
+    it('should use the configured escape character', () => {
+      const grammar = new PermissionGrammar({ separators: [':'], escape: '%' });
+
+      expect(grammar.split('a%:b:c')).toEqual(['a:b', 'c']);
+      expect(grammar.match('a%:b:*', 'a%:b:c')).toBe(true);
+    });
+
+    it('should reject unusable syntax characters', () => {
+      expect(() => new PermissionGrammar({ separators: ['*'] })).toThrow(
+        'Invalid permission syntax character "*"'
+      );
+      expect(() => new PermissionGrammar({ separators: ['::'] })).toThrow();
+      expect(() => new PermissionGrammar({ separators: [':'], escape: ':' })).toThrow(
+        'Permission escape ":" must not be a separator'
+      );
+    });
+  });
+
+  describe('PermissionIndex', () => {
+    it('should agree with the grammar for globs and alternations', () => {
+      const patterns = [
+        'post:edit-*',
+        'post:{read,edit}',
+        '*:{a,b}-*',
+        'x.**',
+        'file:a\\:b'
+      ];
+      const permissions = [
+        'post:edit-title',
+        'post:edit',
+        'post:read',
+        'post:delete',
+        'page:a-1',
+        'page:c-1',
+        'x.y.z',
+        'file:a\\:b',
+        'file:a:b'
+      ];
+
+      for (const pattern of patterns) {
+        const index = new PermissionIndex<string>();
+        index.add(pattern, pattern);
+
+        for (const permission of permissions) {
+          expect(
+            index.match(permission) !== undefined,
+            `${pattern} vs ${permission}`
+          ).toBe(Permission.match(pattern, permission));
+        }
+      }
+    });
+
+    it('should reject malformed patterns', () => {
+      expect(() => new PermissionIndex().add('post:', 'x')).toThrow(
+        InvalidPermissionError
+      );
+    });
+  });
+
+  describe('engine integration', () => {
+    it('should reject malformed role patterns when the role is added', async () => {
+      const engine = new RBACEngine();
+
+      expect(() =>
+        engine.addRole({ name: 'broken', level: 1, permissions: ['post:{read'] })
+      ).toThrow(InvalidPermissionError);
+      expect(() =>
+        engine.addRole({ name: 'broken', level: 1, permissions: [], denies: ['a:**:b'] })
+      ).toThrow(InvalidPermissionError);
+
+      expect(engine.toDocument().roles).toEqual([]);
+    });
+
+    it('should reject malformed policy patterns', () => {
+      const engine = new RBACEngine();
+
+      expect(() => engine.addPolicy('post:', () => true)).toThrow(InvalidPermissionError);
+    });
+
+    it('should evaluate grants, denies and policies with the engine syntax', async () => {
+      const engine = new RBACEngine({ syntax: { separators: ['/'] } });
+
+      engine.addRole({
+        name: 'editor',
+        level: 10,
+        permissions: ['posts/*', 'drafts/edit-*'],
+        denies: ['posts/delete']
+      });
+      engine.addPolicy('posts/*', ({ context }) => context.locked !== true);
+
+      const editor = { id: '1', roles: ['editor'] };
+
+      expect((await engine.can(editor, 'posts/edit')).allowed).toBe(true);
+      expect((await engine.can(editor, 'posts/delete')).allowed).toBe(false);
+      expect((await engine.can(editor, 'drafts/edit-title')).allowed).toBe(true);
+      expect((await engine.can(editor, 'posts/edit', { locked: true })).allowed).toBe(
+        false
+      );
+      expect((await engine.can(editor, 'posts:edit')).allowed).toBe(false);
+    });
+
+    it('should ignore malformed direct subject permissions', async () => {
+      const engine = new RBACEngine();
+
+      const subject = { id: '1', roles: [], permissions: ['post:{read', 'post:read'] };
+
+      expect((await engine.can(subject, 'post:read')).allowed).toBe(true);
+      expect((await engine.can(subject, 'post:{read')).allowed).toBe(false);
+    });
+  });
+});
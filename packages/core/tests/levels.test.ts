@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { RBACEngine } from '../src/engine/RBACEngine';
+import { Subject } from '../src/types';
+
+describe('Level-based authorization', () => {
+  let engine: RBACEngine;
+
+  const user: Subject = { id: 'user', roles: ['user'] };
+  const moderator: Subject = { id: 'mod', roles: ['moderator'] };
+  const admin: Subject = { id: 'admin', roles: ['admin'] };
+  const otherModerator: Subject = { id: 'mod-2', roles: ['user', 'moderator'] };
+  const guest: Subject = { id: 'guest', roles: [] };
+
+  beforeEach(() => {
+    engine = new RBACEngine();
+
+    engine.addRole({ name: 'user', level: 10, permissions: ['post:read'] });
+    engine.addRole({
+      name: 'moderator',
+      level: 50,
+      permissions: ['post:moderate', 'user:assign-role'],
+      inherits: ['user']
+    });
+    engine.addRole({
+      name: 'admin',
+      level: 100,
+      permissions: ['**'],
+      inherits: ['moderator']
+    });
+  });
+
+  describe('levelOf', () => {
+    it('should return the highest level among resolved roles', async () => {
+      expect(await engine.levelOf(otherModerator)).toBe(50);
+      expect(await engine.levelOf(admin)).toBe(100);
+    });
+
+    it('should include inherited roles', async () => {
+      engine.addRole({ name: 'legacy', level: 5, permissions: [], inherits: ['admin'] });
+
+      expect(await engine.levelOf({ id: '1', roles: ['legacy'] })).toBe(100);
+    });
+
+    it('should return -Infinity for subjects without known roles', async () => {
+      expect(await engine.levelOf(guest)).toBe(-Infinity);
+      expect(await engine.levelOf({ id: '1', roles: ['ghost'] })).toBe(-Infinity);
+    });
+  });
+
+  describe('hasLevel', () => {
+    it('should check a minimum level inclusively', async () => {
+      expect(await engine.hasLevel(moderator, 50)).toBe(true);
+      expect(await engine.hasLevel(moderator, 51)).toBe(false);
+      expect(await engine.hasLevel(guest, 0)).toBe(false);
+    });
+  });
+
+  describe('canManage', () => {
+    it('should allow actors with a strictly higher level', async () => {
+      expect(await engine.canManage(admin, moderator)).toBe(true);
+      expect(await engine.canManage(moderator, user)).toBe(true);
+      expect(await engine.canManage(user, guest)).toBe(true);
+    });
+
+    it('should not allow managing peers or higher-level subjects', async () => {
+      expect(await engine.canManage(moderator, otherModerator)).toBe(false);
+      expect(await engine.canManage(moderator, admin)).toBe(false);
+      expect(await engine.canManage(guest, guest)).toBe(false);
+    });
+  });
+
+  describe('canAssign', () => {
+    it('should only allow assigning roles below the actor level', async () => {
+      expect(await engine.canAssign(moderator, 'user')).toBe(true);
+      expect(await engine.canAssign(moderator, 'moderator')).toBe(false);
+      expect(await engine.canAssign(moderator, 'admin')).toBe(false);
+      expect(await engine.canAssign(admin, 'ghost')).toBe(false);
+    });
+  });
+
+  describe('assignRolePolicy', () => {
+    it('should gate role assignment on the role level', async () => {
+      engine.addPolicy('user:assign-role', engine.assignRolePolicy());
+
+      const allowed = await engine.can(moderator, 'user:assign-role', { role: 'user' });
+      const denied = await engine.can(moderator, 'user:assign-role', { role: 'admin' });
+
+      expect(allowed.allowed).toBe(true);
+      expect(denied.allowed).toBe(false);
+      expect(denied.policy).toBe('canAssign');
+    });
+
+    it('should read the role through a custom selector', async () => {
+      engine.addPolicy(
+        'user:assign-role',
+        engine.assignRolePolicy((context) => (context.body as { role: string }).role)
+      );
+
+      const result = await engine.can(admin, 'user:assign-role', {
+        body: { role: 'moderator' }
+      });
+
+      expect(result.allowed).toBe(true);
+    });
+
+    it('should deny when no role is given', async () => {
+      engine.addPolicy('user:assign-role', engine.assignRolePolicy());
+
+      const result = await engine.can(admin, 'user:assign-role');
+
+      expect(result.allowed).toBe(false);
+    });
+  });
+});
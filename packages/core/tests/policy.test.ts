@@ -179,4 +179,104 @@ describe('Policy-based access control', () => {
       expect(unverifiedResult.allowed).toBe(false);
     });
   });
+
+  describe('pattern-keyed policies', () => {
+    const ownershipPolicy: PolicyFn = ({ subject, context }) => {
+      return context.ownerId === subject.id;
+    };
+
+    it('should run a wildcard policy for matching permissions', async () => {
+      engine.addPolicy('post:*', ownershipPolicy);
+
+      const author: Subject = { id: 'author-1', roles: ['author'], permissions: [] };
+
+      const own = await engine.can(author, 'post:edit', { ownerId: 'author-1' });
+      const foreign = await engine.can(author, 'post:delete', { ownerId: 'author-2' });
+
+      expect(own.allowed).toBe(true);
+      expect(foreign.allowed).toBe(false);
+      expect(foreign.reason).toBe('Access denied by policy');
+    });
+
+    it('should run a double wildcard policy for nested permissions', async () => {
+      engine.addRole({ name: 'admin', level: 100, permissions: ['admin:**'] });
+      engine.addPolicy('admin:**', ({ subject }) => subject.attributes?.mfa === true);
+
+      const admin: Subject = {
+        id: 'admin-1',
+        roles: ['admin'],
+        attributes: { mfa: false }
+      };
+
+      const result = await engine.can(admin, 'admin:users:delete');
+
+      expect(result.allowed).toBe(false);
+    });
+
+    it('should not run policies registered under non-matching patterns', async () => {
+      let policyCalled = false;
+
+      engine.addPolicy('comment:*', () => {
+        policyCalled = true;
+        return false;
+      });
+
+      const author: Subject = { id: 'author-1', roles: ['author'], permissions: [] };
+
+      const result = await engine.can(author, 'post:read');
+
+      expect(result.allowed).toBe(true);
+      expect(policyCalled).toBe(false);
+    });
+
+    it('should require every matching policy to pass by default', async () => {
+      engine.addPolicy('post:*', () => true);
+      engine.addPolicy('post:edit', ownershipPolicy);
+
+      const author: Subject = { id: 'author-1', roles: ['author'], permissions: [] };
+
+      const result = await engine.can(author, 'post:edit', { ownerId: 'author-2' });
+
+      expect(result.allowed).toBe(false);
+    });
+
+    it('should let the first matching policy decide with the first strategy', async () => {
+      engine = new RBACEngine({ policyStrategy: 'first' });
+      engine.addRole({ name: 'author', level: 20, permissions: ['post:*'] });
+
+      engine.addPolicy('post:edit', () => true);
+      engine.addPolicy('post:*', ownershipPolicy);
+
+      const author: Subject = { id: 'author-1', roles: ['author'], permissions: [] };
+
+      const edit = await engine.can(author, 'post:edit', { ownerId: 'author-2' });
+      const remove = await engine.can(author, 'post:delete', { ownerId: 'author-2' });
+
+      expect(edit.allowed).toBe(true);
+      expect(remove.allowed).toBe(false);
+    });
+
+    it('should evaluate matching policies in registration order', async () => {
+      const calls: string[] = [];
+
+      engine.addPolicy('post:**', () => {
+        calls.push('post:**');
+        return true;
+      });
+      engine.addPolicy('post:edit', () => {
+        calls.push('post:edit');
+        return true;
+      });
+      engine.addPolicy('*:edit', () => {
+        calls.push('*:edit');
+        return true;
+      });
+
+      const author: Subject = { id: 'author-1', roles: ['author'], permissions: [] };
+
+      await engine.can(author, 'post:edit');
+
+      expect(calls).toEqual(['post:**', 'post:edit', '*:edit']);
+    });
+  });
 });
@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { RBACEngine } from '../src/engine/RBACEngine';
+import { Resource, Subject } from '../src/types';
+import { resource } from '../src/engine';
+
+describe('Resource-scoped permissions', () => {
+  let engine: RBACEngine;
+
+  const alice: Subject = { id: 'alice', roles: ['reader'] };
+
+  const documents = [
+    { type: 'document', id: '1', attributes: { ownerId: 'alice' } },
+    { type: 'document', id: '2', attributes: { ownerId: 'bob' } },
+    { type: 'document', id: '3', attributes: { ownerId: 'alice' } }
+  ];
+
+  beforeEach(() => {
+    engine = new RBACEngine();
+
+    engine.addRole({ name: 'reader', level: 10, permissions: ['document:read'] });
+    engine.addRole({
+      name: 'project-x-editor',
+      level: 20,
+      permissions: ['project:x:*', 'document:2:edit']
+    });
+  });
+
+  it('should authorize an action on a resource type', async () => {
+    const result = await engine.can(
+      alice,
+      'read',
+      resource({ type: 'document', id: '1' })
+    );
+
+    expect(result).toEqual({
+      allowed: true,
+      permission: 'document:1:read',
+      resource: { type: 'document', id: '1' }
+    });
+    expect(
+      (await engine.can(alice, 'read', resource({ type: 'document' }))).allowed
+    ).toBe(true);
+    expect(
+      (await engine.can(alice, 'edit', resource({ type: 'document', id: '1' }))).allowed
+    ).toBe(false);
+  });
+
+  it('should honour grants on specific instances', async () => {
+    const editor: Subject = { id: 'bob', roles: ['project-x-editor'] };
+
+    expect(
+      (await engine.can(editor, 'edit', resource({ type: 'document', id: '2' }))).allowed
+    ).toBe(true);
+    expect(
+      (await engine.can(editor, 'edit', resource({ type: 'document', id: '1' }))).allowed
+    ).toBe(false);
+    expect(
+      (await engine.can(editor, 'delete', resource({ type: 'project', id: 'x' }))).allowed
+    ).toBe(true);
+    expect(
+      (await engine.can(editor, 'delete', resource({ type: 'project', id: 'y' }))).allowed
+    ).toBe(false);
+  });
+
+  it('should honour instance grants given directly to the subject', async () => {
+    const subject: Subject = { id: 'carol', roles: [], permissions: ['document:3:*'] };
+
+    expect(
+      (await engine.can(subject, 'edit', resource({ type: 'document', id: '3' }))).allowed
+    ).toBe(true);
+    expect(
+      (await engine.can(subject, 'edit', resource({ type: 'document' }))).allowed
+    ).toBe(false);
+  });
+
+  it('should let instance denies override type grants', async () => {
+    engine.addRole({
+      name: 'restricted',
+      level: 10,
+      permissions: ['document:*'],
+      denies: ['document:secret:*']
+    });
+
+    const subject: Subject = { id: 'dave', roles: ['restricted'] };
+    const result = await engine.can(
+      subject,
+      'read',
+      resource({ type: 'document', id: 'secret' })
+    );
+
+    expect(result.allowed).toBe(false);
+    expect(result.reason).toContain('deny pattern "document:secret:*"');
+    expect(
+      (await engine.can(subject, 'read', resource({ type: 'document', id: 'public' })))
+        .allowed
+    ).toBe(true);
+  });
+
+  it('should escape separators in resource ids', async () => {
+    const subject: Subject = { id: 'erin', roles: [], permissions: ['file:a\\:b:read'] };
+
+    expect(
+      (await engine.can(subject, 'read', resource({ type: 'file', id: 'a:b' }))).allowed
+    ).toBe(true);
+    expect(
+      (await engine.can(subject, 'read', resource({ type: 'file', id: 'a' }))).allowed
+    ).toBe(false);
+  });
+
+  it('should expose the resource to policies and conditions', async () => {
+    engine.addRole({ name: 'author', level: 20, permissions: ['document:*'] });
+    engine.addPolicy('document:edit', 'subject.id == resource.ownerId');
+
+    const author: Subject = { id: 'alice', roles: ['author'] };
+
+    const own = await engine.can(author, 'edit', resource(documents[0]));
+    const foreign = await engine.can(author, 'edit', resource(documents[1]));
+
+    expect(own.allowed).toBe(true);
+    expect(foreign.allowed).toBe(false);
+    expect(foreign.policy).toBe('subject.id == resource.ownerId');
+  });
+
+  it('should pass the context alongside the resource', async () => {
+    engine.addPolicy('document:read', ({ context }) => {
+      const target = context.resource as Record<string, unknown>;
+      return context.region === 'eu' && target.id === '1' && target.type === 'document';
+    });
+
+    expect(
+      (await engine.can(alice, 'read', resource(documents[0]), { region: 'eu' })).allowed
+    ).toBe(true);
+    expect(
+      (await engine.can(alice, 'read', resource(documents[0]), { region: 'us' })).allowed
+    ).toBe(false);
+  });
+
+  it('should treat objects not built with resource() as a context', async () => {
+    engine.addPolicy('document:read', ({ context }) => context.type === 'internal');
+
+    const result = await engine.can(alice, 'document:read', { type: 'internal' });
+    const shaped = await engine.can(alice, 'document:read', { type: 'draft', id: '1' });
+
+    expect(result).toEqual({ allowed: true, permission: 'document:read' });
+    expect(shaped).toMatchObject({ allowed: false, permission: 'document:read' });
+    expect(shaped.resource).toBeUndefined();
+  });
+
+  it('should explain resource checks', async () => {
+    const { authorization, trace } = await engine.explain(
+      alice,
+      'read',
+      resource({ type: 'document', id: '1' })
+    );
+
+    expect(authorization.allowed).toBe(true);
+    expect(trace.grants).toEqual([
+      {
+        pattern: 'document:read',
+        source: { type: 'role', role: 'reader' },
+        matched: true
+      }
+    ]);
+  });
+
+  describe('filter', () => {
+    it('should keep the resources the subject may act on', async () => {
+      engine.addRole({ name: 'author', level: 20, permissions: ['document:*'] });
+      engine.addPolicy('document:edit', 'subject.id == resource.ownerId');
+
+      const author: Subject = { id: 'alice', roles: ['author'] };
+
+      expect(await engine.filter(author, 'edit', documents)).toEqual([
+        documents[0],
+        documents[2]
+      ]);
+      expect(await engine.filter(alice, 'read', documents)).toEqual(documents);
+      expect(await engine.filter(alice, 'delete', documents)).toEqual([]);
+    });
+
+    it('should preserve the resource type of the input', async () => {
+      type Task = Resource & { title: string };
+
+      const subject: Subject = { id: 'frank', roles: [], permissions: ['task:7:*'] };
+      const tasks = [
+        { type: 'task', id: '7', title: 'Ship it' },
+        { type: 'task', id: '8', title: 'Test it' }
+      ] as Task[];
+
+      const visible: Task[] = await engine.filter(subject, 'view', tasks);
+
+      expect(visible.map((task) => task.title)).toEqual(['Ship it']);
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { RBACEngine } from '../src/engine/RBACEngine';
+import { resource } from '../src/engine';
+import { Subject } from '../src/types';
+
+describe('Scoped role assignments', () => {
+  let engine: RBACEngine;
+
+  const alice: Subject = {
+    id: 'alice',
+    roles: [
+      { role: 'admin', scope: 'org:A' },
+      { role: 'viewer', scope: 'org:B' }
+    ]
+  };
+
+  beforeEach(() => {
+    engine = new RBACEngine();
+
+    engine.addRole({ name: 'viewer', level: 10, permissions: ['project:read'] });
+    engine.addRole({
+      name: 'admin',
+      level: 100,
+      permissions: ['project:*', 'member:*'],
+      inherits: ['viewer']
+    });
+  });
+
+  it('should apply roles only within their scope', async () => {
+    expect((await engine.can(alice, 'project:delete', { scope: 'org:A' })).allowed).toBe(
+      true
+    );
+    expect((await engine.can(alice, 'project:delete', { scope: 'org:B' })).allowed).toBe(
+      false
+    );
+    expect((await engine.can(alice, 'project:read', { scope: 'org:B' })).allowed).toBe(
+      true
+    );
+  });
+
+  it('should ignore scoped roles when the check has no scope', async () => {
+    expect((await engine.can(alice, 'project:read')).allowed).toBe(false);
+  });
+
+  it('should apply unscoped roles in every scope', async () => {
+    const bob: Subject = {
+      id: 'bob',
+      roles: ['viewer', { role: 'admin' }, { role: 'admin', scope: 'org:Z' }]
+    };
+
+    expect((await engine.can(bob, 'project:read', { scope: 'org:A' })).allowed).toBe(
+      true
+    );
+    expect((await engine.can(bob, 'member:invite')).allowed).toBe(true);
+  });
+
+  it('should take the scope from the resource', async () => {
+    const project = resource({ type: 'project', id: 'p1', scope: 'org:A' });
+
+    expect((await engine.can(alice, 'delete', project)).allowed).toBe(true);
+    expect(
+      (await engine.can(alice, 'delete', resource({ ...project, scope: 'org:B' })))
+        .allowed
+    ).toBe(false);
+    expect(
+      (
+        await engine.can(alice, 'delete', resource({ type: 'project', id: 'p1' }), {
+          scope: 'org:A'
+        })
+      ).allowed
+    ).toBe(true);
+  });
+
+  it('should inherit assignments down registered scopes', async () => {
+    engine.addScope('project:p1', 'org:A');
+    engine.addScope('folder:f1', 'project:p1');
+
+    expect(
+      (await engine.can(alice, 'project:delete', { scope: 'folder:f1' })).allowed
+    ).toBe(true);
+    expect(
+      (await engine.can(alice, 'project:delete', { scope: 'folder:f2' })).allowed
+    ).toBe(false);
+
+    const folderAdmin: Subject = {
+      id: 'carol',
+      roles: [{ role: 'admin', scope: 'folder:f1' }]
+    };
+
+    expect(
+      (await engine.can(folderAdmin, 'project:delete', { scope: 'project:p1' })).allowed
+    ).toBe(false);
+  });
+
+  it('should resolve parents with the scopeParent option', async () => {
+    const parents: Record<string, string> = { 'project:p1': 'org:A' };
+    const scoped = new RBACEngine({ scopeParent: (scope) => parents[scope] });
+
+    scoped.addRole({ name: 'admin', level: 100, permissions: ['project:*'] });
+
+    expect(
+      (await scoped.can(alice, 'project:delete', { scope: 'project:p1' })).allowed
+    ).toBe(true);
+    expect(
+      (await scoped.can(alice, 'project:delete', { scope: 'project:p2' })).allowed
+    ).toBe(false);
+  });
+
+  it('should reject scope cycles', () => {
+    engine.addScope('project:p1', 'org:A');
+
+    expect(() => engine.addScope('org:A', 'project:p1')).toThrow(
+      'Scope "org:A" cannot be nested under its descendant "project:p1"'
+    );
+    expect(() => engine.addScope('org:A', 'org:A')).toThrow();
+  });
+
+  it('should filter resources across scopes', async () => {
+    const projects = [
+      { type: 'project', id: 'p1', scope: 'org:A' },
+      { type: 'project', id: 'p2', scope: 'org:B' },
+      { type: 'project', id: 'p3', scope: 'org:C' }
+    ];
+
+    expect(await engine.filter(alice, 'read', projects)).toEqual(projects.slice(0, 2));
+    expect(await engine.filter(alice, 'delete', projects)).toEqual(projects.slice(0, 1));
+  });
+
+  it('should use the context scope for batch checks', async () => {
+    const result = await engine.canAll(alice, ['project:read', 'member:invite'], {
+      scope: 'org:B'
+    });
+
+    expect(result.allowed).toBe(false);
+    expect(result.results['project:read'].allowed).toBe(true);
+  });
+
+  it('should report the assignment scope in explanations', async () => {
+    const { trace } = await engine.explain(alice, 'project:read', { scope: 'org:A' });
+
+    expect(trace.roles).toEqual([
+      { name: 'admin', level: 100, path: ['admin'], scope: 'org:A' },
+      { name: 'viewer', level: 10, path: ['admin', 'viewer'], scope: 'org:A' }
+    ]);
+  });
+
+  it('should compare levels within a scope', async () => {
+    const bob: Subject = { id: 'bob', roles: [{ role: 'viewer', scope: 'org:A' }] };
+
+    expect(await engine.levelOf(alice, 'org:A')).toBe(100);
+    expect(await engine.levelOf(alice, 'org:B')).toBe(10);
+    expect(await engine.levelOf(alice)).toBe(-Infinity);
+    expect(await engine.canManage(alice, bob, 'org:A')).toBe(true);
+    expect(await engine.canAssign(alice, 'viewer', 'org:B')).toBe(false);
+    expect(await engine.canAssign(alice, 'viewer', 'org:A')).toBe(true);
+  });
+
+  it('should check role assignment in the context scope', async () => {
+    engine.addRole({ name: 'owner', level: 200, permissions: ['member:*'] });
+    engine.addPolicy('member:assign', engine.assignRolePolicy());
+
+    const assign = (scope: string) =>
+      engine.can(alice, 'member:assign', { scope, role: 'viewer' });
+
+    expect((await assign('org:A')).allowed).toBe(true);
+    expect((await assign('org:B')).allowed).toBe(false);
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { RBACEngine } from '../src/engine/RBACEngine';
+import { Subject } from '../src/types';
+import { SnapshotEvaluator, resource } from '../src/snapshot';
+
+describe('Permission snapshots', () => {
+  let engine: RBACEngine;
+
+  const alice: Subject = {
+    id: 'alice',
+    roles: ['editor', { role: 'admin', scope: 'org:a' }],
+    permissions: ['billing:read']
+  };
+
+  beforeEach(() => {
+    engine = new RBACEngine();
+
+    engine.addRole({
+      name: 'viewer',
+      level: 10,
+      permissions: ['post:read', 'user:read']
+    });
+    engine.addRole({
+      name: 'editor',
+      level: 50,
+      permissions: ['post:*', 'comment:delete'],
+      inherits: ['viewer'],
+      denies: ['post:delete', 'comment:*']
+    });
+    engine.addRole({ name: 'admin', level: 100, permissions: ['**'] });
+    engine.addPolicy('post:publish', ({ context }) => context.approved === true);
+    engine.addPolicy('post:edit', 'subject.id == resource.ownerId');
+  });
+
+  it('should contain effective grants, denies and gated patterns only', async () => {
+    const snapshot = await engine.snapshot(alice);
+
+    expect(snapshot).toEqual({
+      version: 1,
+      hash: expect.stringMatching(/^[0-9a-f]{16}$/),
+      subject: 'alice',
+      grants: ['billing:read', 'post:*', 'post:read', 'user:read'],
+      denies: ['comment:*', 'post:delete'],
+      gated: ['post:edit', 'post:publish']
+    });
+    expect(JSON.parse(JSON.stringify(snapshot))).toEqual(snapshot);
+  });
+
+  it('should include roles assigned in the requested scope', async () => {
+    const snapshot = await engine.snapshot(alice, 'org:a');
+
+    expect(snapshot.scope).toBe('org:a');
+    expect(snapshot.grants).toContain('**');
+  });
+
+  it('should answer like the engine', async () => {
+    const client = new SnapshotEvaluator(await engine.snapshot(alice));
+    const permissions = [
+      'post:read',
+      'post:create',
+      'post:delete',
+      'comment:delete',
+      'user:read',
+      'user:delete',
+      'billing:read'
+    ];
+
+    for (const permission of permissions) {
+      expect(client.can(permission).allowed, permission).toBe(
+        (await engine.can(alice, permission)).allowed
+      );
+    }
+  });
+
+  it('should check actions on resources', async () => {
+    const client = new SnapshotEvaluator(await engine.snapshot(alice));
+
+    expect(client.can('read', resource({ type: 'post', id: '1' }))).toEqual({
+      allowed: true,
+      permission: 'post:1:read'
+    });
+    expect(client.can('delete', resource({ type: 'post', id: '1' })).allowed).toBe(false);
+  });
+
+  it('should mark permissions that need a server check', async () => {
+    const client = new SnapshotEvaluator(await engine.snapshot(alice));
+
+    expect(client.can('post:publish')).toEqual({
+      allowed: false,
+      reason: 'Permission depends on a policy evaluated by the server',
+      permission: 'post:publish',
+      gated: true
+    });
+    expect(client.can('user:publish').gated).toBeUndefined();
+  });
+
+  it('should not leak policy code or roles', async () => {
+    const serialized = JSON.stringify(await engine.snapshot(alice));
+
+    expect(serialized).not.toContain('approved');
+    expect(serialized).not.toContain('ownerId');
+    expect(serialized).not.toContain('editor');
+  });
+
+  it('should change the hash when the answers may change', async () => {
+    const before = await engine.snapshot(alice);
+
+    expect((await engine.snapshot(alice)).hash).toBe(before.hash);
+
+    engine.addRole({ name: 'viewer', level: 10, permissions: ['post:read', 'tag:read'] });
+    const after = await engine.snapshot(alice);
+
+    expect(after.hash).not.toBe(before.hash);
+    expect(new SnapshotEvaluator(before).isStale(after.hash)).toBe(true);
+    expect(new SnapshotEvaluator(after).isStale(after.hash)).toBe(false);
+  });
+
+  it('should carry a custom permission syntax', async () => {
+    const custom = new RBACEngine({ syntax: { separators: ['/'] } });
+    custom.addRole({ name: 'reader', level: 1, permissions: ['files/*/read'] });
+
+    const snapshot = await custom.snapshot({ id: 'bob', roles: ['reader'] });
+    const client = new SnapshotEvaluator(JSON.stringify(snapshot));
+
+    expect(snapshot.syntax).toEqual({ separators: ['/'], escape: '\\' });
+    expect(client.can('files/a/read').allowed).toBe(true);
+    expect(client.can('files:a:read').allowed).toBe(false);
+  });
+
+  it('should reject unknown snapshot versions', () => {
+    expect(
+      () =>
+        new SnapshotEvaluator({
+          version: 2 as 1,
+          hash: '',
+          subject: 'x',
+          grants: [],
+          denies: [],
+          gated: []
+        })
+    ).toThrow('Unsupported permission snapshot version 2');
+  });
+});
@@ -0,0 +1,234 @@
+import { describe, it, expect, vi } from 'vitest';
+
+import { TenantRegistry, mergeDocuments } from '../src/tenants';
+import { PolicyDocument, Subject } from '../src/types';
+import { DocumentValidationError } from '../src/errors';
+import { MemoryAdapter } from '../src/adapters';
+import { RBACEngineOptions } from '../src/engine';
+
+const base: PolicyDocument = {
+  version: 1,
+  roles: [
+    { name: 'viewer', level: 10, permissions: ['post:read'] },
+    { name: 'editor', level: 50, permissions: ['post:*'], inherits: ['viewer'] }
+  ]
+};
+
+const tenants: Record<string, PolicyDocument> = {
+  acme: {
+    version: 1,
+    roles: [
+      { name: 'editor', level: 50, permissions: ['post:read', 'post:edit'] },
+      { name: 'auditor', level: 20, permissions: ['log:read'], inherits: ['viewer'] }
+    ]
+  },
+  globex: {
+    version: 1,
+    roles: [{ name: 'billing', level: 30, permissions: ['invoice:*'] }]
+  }
+};
+
+const subject = (...roles: string[]): Subject => ({ id: 'user-1', roles });
+
+describe('TenantRegistry', () => {
+  it('should give every tenant the shared base roles', async () => {
+    const registry = new TenantRegistry({ base });
+    const engine = await registry.engine('initech');
+
+    expect((await engine.can(subject('editor'), 'post:delete')).allowed).toBe(true);
+    expect((await engine.can(subject('viewer'), 'post:read')).allowed).toBe(true);
+  });
+
+  it('should layer tenant roles and overrides over the base', async () => {
+    const registry = new TenantRegistry({ base, load: (tenantId) => tenants[tenantId] });
+    const acme = await registry.engine('acme');
+
+    expect((await acme.can(subject('editor'), 'post:edit')).allowed).toBe(true);
+    expect((await acme.can(subject('editor'), 'post:delete')).allowed).toBe(false);
+    expect((await acme.can(subject('auditor'), 'post:read')).allowed).toBe(true);
+    expect((await acme.can(subject('auditor'), 'log:read')).allowed).toBe(true);
+  });
+
+  it('should isolate tenants from each other', async () => {
+    const registry = new TenantRegistry({ base, load: (tenantId) => tenants[tenantId] });
+    const acme = await registry.engine('acme');
+    const globex = await registry.engine('globex');
+
+    expect((await acme.can(subject('billing'), 'invoice:pay')).allowed).toBe(false);
+    expect((await globex.can(subject('auditor'), 'log:read')).allowed).toBe(false);
+    expect((await globex.can(subject('editor'), 'post:delete')).allowed).toBe(true);
+    expect(acme.toDocument().roles.map((role) => role.name)).not.toContain('billing');
+  });
+
+  it('should give every tenant its own storage', async () => {
+    const stores: Record<string, MemoryAdapter> = {
+      acme: new MemoryAdapter({ roles: tenants.acme.roles.slice(1) }),
+      globex: new MemoryAdapter({ roles: tenants.globex.roles })
+    };
+    const storage = vi.fn((tenantId: string) => stores[tenantId]);
+    const registry = new TenantRegistry({ base, storage });
+
+    const acme = await registry.engine('acme');
+    const globex = await registry.engine('globex');
+
+    expect((await acme.can(subject('auditor'), 'log:read')).allowed).toBe(true);
+    expect((await acme.can(subject('billing'), 'invoice:pay')).allowed).toBe(false);
+    expect((await globex.can(subject('billing'), 'invoice:pay')).allowed).toBe(true);
+    expect((await globex.can(subject('auditor'), 'log:read')).allowed).toBe(false);
+    expect(storage.mock.calls).toEqual([['acme'], ['globex']]);
+  });
+
+  it('should refuse a storage shared by every tenant', () => {
+    const engine = { storage: new MemoryAdapter() } as RBACEngineOptions;
+
+    expect(() => new TenantRegistry({ base, engine })).toThrow(
+      'TenantRegistry cannot share engine.storage between tenants'
+    );
+  });
+
+  it('should not share role objects with the base document or other tenants', async () => {
+    const document: PolicyDocument = structuredClone(base);
+    const registry = new TenantRegistry({ base: document });
+    const first = await registry.engine('a');
+
+    document.roles[0].permissions.push('post:delete');
+
+    const second = await registry.engine('b');
+
+    expect((await first.can(subject('viewer'), 'post:delete')).allowed).toBe(false);
+    expect((await second.can(subject('viewer'), 'post:delete')).allowed).toBe(false);
+  });
+
+  it('should load each tenant lazily and only once', async () => {
+    const load = vi.fn(async (tenantId: string) => tenants[tenantId]);
+    const registry = new TenantRegistry({ base, load });
+
+    expect(registry.has('acme')).toBe(false);
+    expect(load).not.toHaveBeenCalled();
+
+    const [first, second] = await Promise.all([
+      registry.engine('acme'),
+      registry.engine('acme')
+    ]);
+
+    expect(first).toBe(second);
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(registry.tenants()).toEqual(['acme']);
+  });
+
+  it('should reload invalidated tenants', async () => {
+    const load = vi.fn((tenantId: string) => tenants[tenantId]);
+    const registry = new TenantRegistry({ base, load });
+
+    const before = await registry.engine('acme');
+    registry.invalidate('acme');
+    const after = await registry.engine('acme');
+
+    expect(after).not.toBe(before);
+    expect(load).toHaveBeenCalledTimes(2);
+
+    registry.invalidate();
+    expect(registry.tenants()).toEqual([]);
+  });
+
+  it('should accept tenant documents as YAML', async () => {
+    const registry = new TenantRegistry({
+      base,
+      load: () =>
+        'version: 1\nroles:\n  - name: support\n    level: 5\n    permissions: [ticket:*]\n'
+    });
+    const engine = await registry.engine('acme');
+
+    expect((await engine.can(subject('support'), 'ticket:close')).allowed).toBe(true);
+  });
+
+  it('should retry a tenant whose load failed', async () => {
+    const load = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('database unavailable'))
+      .mockResolvedValueOnce(tenants.acme);
+    const registry = new TenantRegistry({ base, load });
+
+    await expect(registry.engine('acme')).rejects.toThrow('database unavailable');
+    expect(registry.has('acme')).toBe(false);
+
+    const engine = await registry.engine('acme');
+    expect((await engine.can(subject('auditor'), 'log:read')).allowed).toBe(true);
+  });
+
+  it('should reject invalid tenant documents', async () => {
+    const registry = new TenantRegistry({
+      base,
+      load: () => ({
+        version: 1,
+        roles: [{ name: 'broken', level: 1, permissions: [], inherits: ['missing'] }]
+      })
+    });
+
+    await expect(registry.engine('acme')).rejects.toThrow(DocumentValidationError);
+  });
+
+  it('should reject an invalid base document up front', () => {
+    expect(
+      () =>
+        new TenantRegistry({
+          base: { version: 1, roles: [{ name: '', level: 1, permissions: [] }] }
+        })
+    ).toThrow(DocumentValidationError);
+  });
+
+  it('should configure every tenant engine', async () => {
+    const registry = new TenantRegistry({
+      base,
+      engine: { strict: true },
+      configure: (engine, tenantId) =>
+        engine.addPolicy(
+          'post:*',
+          ({ subject }) => subject.attributes?.tenant === tenantId
+        )
+    });
+    const engine = await registry.engine('acme');
+    const member: Subject = {
+      id: 'u',
+      roles: ['editor'],
+      attributes: { tenant: 'acme' }
+    };
+    const outsider: Subject = { ...member, attributes: { tenant: 'globex' } };
+
+    expect((await engine.can(member, 'post:edit')).allowed).toBe(true);
+    expect((await engine.can(outsider, 'post:edit')).allowed).toBe(false);
+  });
+});
+
+describe('mergeDocuments', () => {
+  it('should replace base entries by name and append new ones', () => {
+    const merged = mergeDocuments(
+      {
+        version: 1,
+        permissions: [{ name: 'post:read', description: 'Read posts' }],
+        roles: base.roles,
+        policies: [
+          { permission: 'post:edit', condition: 'subject.id == resource.ownerId' }
+        ]
+      },
+      {
+        version: 1,
+        permissions: [{ name: 'post:read', description: 'View posts' }],
+        roles: [{ name: 'viewer', level: 10, permissions: ['post:list'] }],
+        policies: [{ permission: 'post:read', condition: 'context.public' }]
+      }
+    );
+
+    expect(merged.permissions).toEqual([
+      { name: 'post:read', description: 'View posts' }
+    ]);
+    expect(merged.roles.map((role) => [role.name, role.permissions])).toEqual([
+      ['viewer', ['post:list']],
+      ['editor', ['post:*']]
+    ]);
+    expect(merged.policies?.map((policy) => policy.permission)).toEqual([
+      'post:edit',
+      'post:read'
+    ]);
+  });
+});
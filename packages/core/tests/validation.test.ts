@@ -0,0 +1,216 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { RBACEngine } from '../src/engine/RBACEngine';
+import { RoleValidationError } from '../src/errors';
+import { loadDocument } from '../src/document';
+
+describe('Role hierarchy validation', () => {
+  describe('validate', () => {
+    let engine: RBACEngine;
+
+    beforeEach(() => {
+      engine = new RBACEngine();
+    });
+
+    it('should report no issues for a well-formed hierarchy', () => {
+      engine.addRole({ name: 'viewer', level: 10, permissions: ['post:read'] });
+      engine.addRole({
+        name: 'editor',
+        level: 50,
+        permissions: ['post:*'],
+        inherits: ['viewer'],
+        denies: ['post:delete']
+      });
+
+      expect(engine.validate()).toEqual([]);
+    });
+
+    it('should report inheritance cycles once', () => {
+      engine.addRole({ name: 'a', level: 10, permissions: [], inherits: ['b'] });
+      engine.addRole({ name: 'b', level: 10, permissions: [], inherits: ['c'] });
+      engine.addRole({ name: 'c', level: 10, permissions: [], inherits: ['a'] });
+      engine.addRole({ name: 'self', level: 10, permissions: [], inherits: ['self'] });
+
+      expect(engine.validate()).toEqual([
+        { type: 'cycle', role: 'a', message: 'Inheritance cycle: a -> b -> c -> a' },
+        { type: 'cycle', role: 'self', message: 'Inheritance cycle: self -> self' }
+      ]);
+    });
+
+    it('should report inherits entries pointing at unknown roles', () => {
+      engine.addRole({ name: 'editor', level: 50, permissions: [], inherits: ['viewr'] });
+
+      expect(engine.validate()).toEqual([
+        {
+          type: 'unknown-role',
+          role: 'editor',
+          message: 'Role "editor" inherits unknown role "viewr"'
+        }
+      ]);
+    });
+
+    it('should report children with a lower level than their parent', () => {
+      engine.addRole({ name: 'admin', level: 100, permissions: [] });
+      engine.addRole({ name: 'helper', level: 20, permissions: [], inherits: ['admin'] });
+
+      expect(engine.validate()).toEqual([
+        {
+          type: 'level-inversion',
+          role: 'helper',
+          message:
+            'Role "helper" (level 20) inherits higher-level role "admin" (level 100)'
+        }
+      ]);
+    });
+
+    it('should report grants that the same role denies', () => {
+      engine.addRole({
+        name: 'editor',
+        level: 50,
+        permissions: ['post:read', 'post:delete', 'post:*'],
+        denies: ['post:delete']
+      });
+      engine.addRole({
+        name: 'locked',
+        level: 1,
+        permissions: ['comment:*'],
+        denies: ['**']
+      });
+
+      expect(engine.validate()).toEqual([
+        {
+          type: 'grant-deny-conflict',
+          role: 'editor',
+          message: 'Role "editor" grants "post:delete" but denies it with "post:delete"'
+        },
+        {
+          type: 'grant-deny-conflict',
+          role: 'locked',
+          message: 'Role "locked" grants "comment:*" but denies it with "**"'
+        }
+      ]);
+    });
+
+    it('should keep resolving permissions despite issues', async () => {
+      engine.addRole({ name: 'a', level: 10, permissions: ['perm:a'], inherits: ['b'] });
+      engine.addRole({ name: 'b', level: 10, permissions: ['perm:b'], inherits: ['a'] });
+
+      expect(engine.validate()).toHaveLength(1);
+      expect((await engine.can({ id: '1', roles: ['a'] }, 'perm:b')).allowed).toBe(true);
+    });
+  });
+
+  describe('strict mode', () => {
+    let engine: RBACEngine;
+
+    beforeEach(() => {
+      engine = new RBACEngine({ strict: true });
+      engine.addRole({ name: 'viewer', level: 10, permissions: ['post:read'] });
+    });
+
+    it('should accept valid roles', () => {
+      engine.addRole({
+        name: 'editor',
+        level: 50,
+        permissions: [],
+        inherits: ['viewer']
+      });
+
+      expect(engine.validate()).toEqual([]);
+    });
+
+    it('should throw when a role inherits a role that was not added yet', () => {
+      expect(() =>
+        engine.addRole({
+          name: 'editor',
+          level: 50,
+          permissions: [],
+          inherits: ['ghost']
+        })
+      ).toThrow(RoleValidationError);
+    });
+
+    it('should throw on level inversions and grant/deny conflicts', () => {
+      expect(() =>
+        engine.addRole({ name: 'guest', level: 1, permissions: [], inherits: ['viewer'] })
+      ).toThrow('Role "guest" (level 1) inherits higher-level role "viewer" (level 10)');
+
+      expect(() =>
+        engine.addRole({
+          name: 'odd',
+          level: 20,
+          permissions: ['post:edit'],
+          denies: ['post:*']
+        })
+      ).toThrow(RoleValidationError);
+    });
+
+    it('should throw when raising a role above the roles inheriting it', () => {
+      engine.addRole({ name: 'base', level: 10, permissions: [] });
+      engine.addRole({ name: 'child', level: 20, permissions: [], inherits: ['base'] });
+
+      expect(() =>
+        engine.updateRole({ name: 'base', level: 30, permissions: [] })
+      ).toThrow('Role "child" (level 20) inherits higher-level role "base" (level 30)');
+      expect(engine.getRole('base')?.level).toBe(10);
+      expect(engine.validate()).toEqual([]);
+    });
+
+    it('should throw when replacing a role would create a cycle', () => {
+      engine.addRole({
+        name: 'editor',
+        level: 10,
+        permissions: [],
+        inherits: ['viewer']
+      });
+
+      try {
+        engine.addRole({
+          name: 'viewer',
+          level: 10,
+          permissions: [],
+          inherits: ['editor']
+        });
+        expect.unreachable();
+      } catch (error) {
+        expect((error as RoleValidationError).issues).toEqual([
+          {
+            type: 'cycle',
+            role: 'viewer',
+            message: 'Inheritance cycle: viewer -> editor -> viewer'
+          }
+        ]);
+      }
+    });
+
+    it('should leave the engine untouched when a role is rejected', async () => {
+      expect(() =>
+        engine.addRole({
+          name: 'viewer',
+          level: 10,
+          permissions: [],
+          inherits: ['ghost']
+        })
+      ).toThrow(RoleValidationError);
+
+      expect(
+        (await engine.can({ id: '1', roles: ['viewer'] }, 'post:read')).allowed
+      ).toBe(true);
+    });
+
+    it('should load documents regardless of role order', () => {
+      engine = new RBACEngine({ strict: true });
+
+      loadDocument(engine, {
+        version: 1,
+        roles: [
+          { name: 'admin', level: 100, permissions: [], inherits: ['editor'] },
+          { name: 'editor', level: 50, permissions: [], inherits: ['viewer'] },
+          { name: 'viewer', level: 10, permissions: ['post:read'] }
+        ]
+      });
+
+      expect(engine.validate()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { RBACEngine } from '../src/engine/RBACEngine';
+import { Subject } from '../src/types';
+import { SnapshotEvaluator } from '../src/snapshot';
+
+describe('Time-bound assignments', () => {
+  let engine: RBACEngine;
+  let now: number;
+
+  const at = (iso: string) => {
+    now = Date.parse(iso);
+  };
+
+  const contractor: Subject = {
+    id: 'carol',
+    roles: [
+      'viewer',
+      {
+        role: 'oncall',
+        validFrom: '2026-03-01T00:00:00Z',
+        validUntil: '2026-03-08T00:00:00Z'
+      }
+    ],
+    permissions: [
+      { permission: 'report:export', validUntil: new Date('2026-03-05T00:00:00Z') },
+      'report:read'
+    ]
+  };
+
+  beforeEach(() => {
+    at('2026-03-04T12:00:00Z');
+    engine = new RBACEngine({ now: () => now });
+
+    engine.addRole({ name: 'viewer', level: 10, permissions: ['post:read'] });
+    engine.addRole({ name: 'responder', level: 30, permissions: ['incident:*'] });
+    engine.addRole({
+      name: 'oncall',
+      level: 40,
+      permissions: ['pager:ack'],
+      inherits: ['responder']
+    });
+  });
+
+  it('should apply assignments inside their window', async () => {
+    expect((await engine.can(contractor, 'incident:close')).allowed).toBe(true);
+    expect((await engine.can(contractor, 'report:export')).allowed).toBe(true);
+    expect(await engine.levelOf(contractor)).toBe(40);
+  });
+
+  it('should ignore assignments before they start', async () => {
+    at('2026-02-28T23:59:59Z');
+
+    expect((await engine.can(contractor, 'pager:ack')).allowed).toBe(false);
+    expect((await engine.can(contractor, 'post:read')).allowed).toBe(true);
+  });
+
+  it('should ignore assignments from the moment they end', async () => {
+    at('2026-03-05T00:00:00Z');
+
+    expect((await engine.can(contractor, 'report:export')).allowed).toBe(false);
+    expect((await engine.can(contractor, 'report:read')).allowed).toBe(true);
+
+    at('2026-03-08T00:00:00Z');
+
+    expect((await engine.can(contractor, 'pager:ack')).allowed).toBe(false);
+    expect(await engine.levelOf(contractor)).toBe(10);
+    expect(await engine.canAssign(contractor, 'viewer')).toBe(false);
+  });
+
+  it('should keep assignments with malformed bounds inactive', async () => {
+    const subject: Subject = {
+      id: 'dave',
+      roles: [{ role: 'oncall', validUntil: 'next week' }]
+    };
+
+    expect((await engine.can(subject, 'pager:ack')).allowed).toBe(false);
+  });
+
+  it('should combine windows with scopes', async () => {
+    const subject: Subject = {
+      id: 'erin',
+      roles: [{ role: 'oncall', scope: 'team:a', validUntil: '2026-03-06T00:00:00Z' }]
+    };
+
+    expect((await engine.can(subject, 'pager:ack', { scope: 'team:a' })).allowed).toBe(
+      true
+    );
+    expect((await engine.can(subject, 'pager:ack', { scope: 'team:b' })).allowed).toBe(
+      false
+    );
+  });
+
+  it('should not serve cached decisions after a window changes', async () => {
+    const cached = new RBACEngine({ now: () => now, cache: true });
+    cached.addRole({ name: 'oncall', level: 40, permissions: ['pager:ack'] });
+
+    expect((await cached.can(contractor, 'pager:ack')).allowed).toBe(true);
+
+    at('2026-03-09T00:00:00Z');
+
+    expect((await cached.can(contractor, 'pager:ack')).allowed).toBe(false);
+  });
+
+  describe('explain', () => {
+    it('should report expired grants that would have matched', async () => {
+      at('2026-03-10T00:00:00Z');
+
+      const { authorization, trace } = await engine.explain(contractor, 'incident:close');
+
+      expect(authorization.allowed).toBe(false);
+      expect(trace.inactive).toEqual([
+        {
+          pattern: 'incident:*',
+          source: { type: 'role', role: 'responder' },
+          status: 'expired',
+          validFrom: '2026-03-01T00:00:00Z',
+          validUntil: '2026-03-08T00:00:00Z'
+        }
+      ]);
+    });
+
+    it('should report direct permissions that have not started or ended', async () => {
+      at('2026-03-06T00:00:00Z');
+
+      const { trace } = await engine.explain(contractor, 'report:export');
+
+      expect(trace.inactive).toEqual([
+        {
+          pattern: 'report:export',
+          source: { type: 'subject' },
+          status: 'expired',
+          validUntil: '2026-03-05T00:00:00.000Z'
+        }
+      ]);
+    });
+
+    it('should leave out inactive grants that would not match', async () => {
+      at('2026-03-10T00:00:00Z');
+
+      const { trace } = await engine.explain(contractor, 'post:delete');
+
+      expect(trace.inactive).toEqual([]);
+    });
+  });
+
+  describe('snapshots', () => {
+    it('should only contain active grants and expire at the next window change', async () => {
+      const snapshot = await engine.snapshot(contractor);
+      const client = new SnapshotEvaluator(snapshot);
+
+      expect(snapshot.grants).toEqual([
+        'incident:*',
+        'pager:ack',
+        'post:read',
+        'report:export',
+        'report:read'
+      ]);
+      expect(snapshot.validUntil).toBe('2026-03-05T00:00:00.000Z');
+      expect(client.isExpired(Date.parse('2026-03-04T23:00:00Z'))).toBe(false);
+      expect(client.isExpired(Date.parse('2026-03-05T00:00:00Z'))).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+
+import { Authorization } from '@unirbac/core';
+import {
+  GuardOptions,
+  GuardResponse,
+  RequestCan,
+  RequestGuard,
+  RequirePermissionOptions,
+  createGuard,
+  guardResponse
+} from '@unirbac/http';
+
+export type { RequestCan, RequirePermissionOptions } from '@unirbac/http';
+
+export type NextFunction = (error?: unknown) => void;
+
+export type Middleware<Req extends IncomingMessage = IncomingMessage> = (
+  req: Req,
+  res: ServerResponse,
+  next: NextFunction
+) => void;
+
+export type AuthorizedRequest<Req extends IncomingMessage = IncomingMessage> = Req & {
+  can: RequestCan;
+};
+
+export type UnirbacOptions<Req extends IncomingMessage = IncomingMessage> =
+  GuardOptions<Req> & {
+    /** Responds to unauthenticated requests. Defaults to a JSON 401. */
+    onUnauthenticated?: (req: Req, res: ServerResponse) => void;
+    /** Responds to denied requests. Defaults to a JSON 403 with the reason. */
+    onDenied?: (req: Req, res: ServerResponse, authorization: Authorization) => void;
+  };
+
+type RequestState = {
+  guard: RequestGuard<IncomingMessage>;
+  options: UnirbacOptions<IncomingMessage>;
+};
+
+const STATE = Symbol('unirbac');
+
+type GuardedRequest = IncomingMessage & { [STATE]?: RequestState };
+
+const sendJson = (res: ServerResponse, { status, body }: GuardResponse): void => {
+  if (res.headersSent) return;
+
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * Attaches `req.can` and the configuration used by `requirePermission`. The
+ * subject is resolved at most once per request and, with `session`, every check
+ * of a request shares one decision cache.
+ */
+export const unirbac = <Req extends IncomingMessage = IncomingMessage>(
+  options: UnirbacOptions<Req>
+): Middleware<Req> => {
+  const guardOf = createGuard(options);
+
+  return (req, _res, next) => {
+    const guard = guardOf(req);
+
+    (req as GuardedRequest)[STATE] = {
+      guard: guard as RequestGuard<IncomingMessage>,
+      options: options as UnirbacOptions<IncomingMessage>
+    };
+    (req as AuthorizedRequest<Req>).can = guard.can;
+
+    next();
+  };
+};
+
+/**
+ * Rejects requests whose subject lacks `permission`: 401 when there is no
+ * subject and 403 with `Authorization.reason` when the check fails. Requires
+ * the `unirbac` middleware earlier in the chain.
+ */
+export const requirePermission = <Req extends IncomingMessage = IncomingMessage>(
+  permission: string,
+  options: RequirePermissionOptions<Req> = {}
+): Middleware<Req> => {
+  return (req, res, next) => {
+    const state = (req as GuardedRequest)[STATE];
+
+    if (!state) {
+      next(new Error('requirePermission() needs the unirbac() middleware to run first'));
+      return;
+    }
+
+    const { guard, options: configured } = state;
+
+    const check = async () => {
+      const decision = await (guard as RequestGuard<Req>).check(permission, options);
+
+      if (decision.outcome === 'allowed') {
+        next();
+      } else if (decision.outcome === 'unauthenticated' && configured.onUnauthenticated) {
+        configured.onUnauthenticated(req, res);
+      } else if (decision.outcome === 'denied' && configured.onDenied) {
+        configured.onDenied(req, res, decision.authorization);
+      } else {
+        sendJson(res, guardResponse(decision)!);
+      }
+    };
+
+    check().catch(next);
+  };
+};
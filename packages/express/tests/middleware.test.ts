@@ -0,0 +1,250 @@
+import { AddressInfo } from 'node:net';
+import { Server } from 'node:http';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import express, { Request } from 'express';
+import { RBACEngine, Subject, resource } from '@unirbac/core';
+
+import { AuthorizedRequest, requirePermission, unirbac } from '../src';
+
+type TestRequest = Request & { user?: Subject };
+
+const posts: Record<string, { ownerId: string }> = {
+  '1': { ownerId: 'alice' },
+  '2': { ownerId: 'bob' }
+};
+
+describe('Express middleware', () => {
+  let engine: RBACEngine;
+  let server: Server | undefined;
+
+  const users: Record<string, Subject> = {
+    alice: { id: 'alice', roles: ['author'] },
+    guest: { id: 'guest', roles: ['viewer'] }
+  };
+
+  const listen = async (app: express.Express): Promise<string> => {
+    server = app.listen(0);
+    await new Promise((resolve) => server!.once('listening', resolve));
+
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  };
+
+  const createApp = (configure: (app: express.Express) => void) => {
+    const app = express();
+
+    app.use((req: TestRequest, _res, next) => {
+      req.user = users[req.header('x-user') ?? ''];
+      next();
+    });
+    app.use(unirbac<TestRequest>({ engine, subject: (req) => req.user }));
+    configure(app);
+
+    return app;
+  };
+
+  beforeEach(() => {
+    engine = new RBACEngine();
+    engine.addRole({ name: 'viewer', level: 10, permissions: ['post:read'] });
+    engine.addRole({
+      name: 'author',
+      level: 20,
+      permissions: ['post:*'],
+      inherits: ['viewer']
+    });
+    engine.addPolicy('post:edit', 'subject.id == resource.ownerId');
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server?.close(resolve) ?? resolve(undefined));
+    server = undefined;
+  });
+
+  const editRoute = (app: express.Express) => {
+    app.put(
+      '/posts/:id',
+      requirePermission<TestRequest>('post:edit', {
+        resource: (req) => posts[req.params.id as string]
+      }),
+      (_req, res) => {
+        res.json({ updated: true });
+      }
+    );
+  };
+
+  it('should pass allowed requests through', async () => {
+    const url = await listen(createApp(editRoute));
+
+    const response = await fetch(`${url}/posts/1`, {
+      method: 'PUT',
+      headers: { 'x-user': 'alice' }
+    });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ updated: true });
+  });
+
+  it('should respond 403 with the reason on denial', async () => {
+    const url = await listen(createApp(editRoute));
+
+    const foreign = await fetch(`${url}/posts/2`, {
+      method: 'PUT',
+      headers: { 'x-user': 'alice' }
+    });
+    const viewer = await fetch(`${url}/posts/1`, {
+      method: 'PUT',
+      headers: { 'x-user': 'guest' }
+    });
+
+    expect(foreign.status).toBe(403);
+    expect(await foreign.json()).toEqual({
+      error: 'Forbidden',
+      reason: 'Access denied by policy',
+      permission: 'post:edit'
+    });
+    expect(await viewer.json()).toMatchObject({
+      reason: 'Permission not found in subject roles/permissions'
+    });
+  });
+
+  it('should respond 401 without a subject', async () => {
+    const url = await listen(createApp(editRoute));
+
+    const response = await fetch(`${url}/posts/1`, { method: 'PUT' });
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({ error: 'Unauthorized' });
+  });
+
+  it('should attach req.can for handlers', async () => {
+    const url = await listen(
+      createApp((app) =>
+        app.get('/posts/:id', async (req, res) => {
+          const { can } = req as AuthorizedRequest<typeof req>;
+          const post = posts[req.params.id];
+
+          const [read, edit, instance] = await Promise.all([
+            can('post:read'),
+            can('post:edit', { resource: post }),
+            can('read', resource({ type: 'post', id: req.params.id }))
+          ]);
+
+          res.json({
+            read: read.allowed,
+            edit: edit.allowed,
+            resource: instance.allowed
+          });
+        })
+      )
+    );
+
+    const alice = await fetch(`${url}/posts/2`, { headers: { 'x-user': 'alice' } });
+    const anonymous = await fetch(`${url}/posts/1`);
+
+    expect(await alice.json()).toEqual({ read: true, edit: false, resource: true });
+    expect(await anonymous.json()).toEqual({ read: false, edit: false, resource: false });
+  });
+
+  it('should check each resource of a request on its own', async () => {
+    engine.addPolicy('post:delete', ({ subject, context }) => {
+      const post = context.resource as { ownerId: string } | undefined;
+      return post?.ownerId === subject.id;
+    });
+
+    const url = await listen(
+      createApp((app) =>
+        app.delete(
+          '/posts/:id',
+          requirePermission<TestRequest>('post:delete', {
+            resource: (req) => posts[req.params.id as string]
+          }),
+          async (req, res) => {
+            const { can } = req as AuthorizedRequest<typeof req>;
+            const other = await can('post:delete', { resource: posts['2'] });
+
+            res.json({ other: other.allowed });
+          }
+        )
+      )
+    );
+
+    const response = await fetch(`${url}/posts/1`, {
+      method: 'DELETE',
+      headers: { 'x-user': 'alice' }
+    });
+
+    expect(await response.json()).toEqual({ other: false });
+  });
+
+  it('should use custom denial responses', async () => {
+    const app = express();
+    app.use(
+      unirbac({
+        engine,
+        subject: () => users.guest,
+        onDenied: (_req, res, authorization) => {
+          res.statusCode = 404;
+          res.end(authorization.permission);
+        }
+      })
+    );
+    app.delete('/posts/:id', requirePermission('post:delete'), (_req, res) => {
+      res.end();
+    });
+    const url = await listen(app);
+
+    const response = await fetch(`${url}/posts/1`, { method: 'DELETE' });
+
+    expect(response.status).toBe(404);
+    expect(await response.text()).toBe('post:delete');
+  });
+
+  it('should forward subject resolution errors', async () => {
+    const app = express();
+    app.use(
+      unirbac({
+        engine,
+        subject: () => Promise.reject(new Error('session store down'))
+      })
+    );
+    app.get('/', requirePermission('post:read'), (_req, res) => {
+      res.end();
+    });
+    app.use(
+      (
+        error: Error,
+        _req: Request,
+        res: express.Response,
+        _next: express.NextFunction
+      ) => {
+        res.status(503).send(error.message);
+      }
+    );
+    const url = await listen(app);
+
+    const response = await fetch(url);
+
+    expect(response.status).toBe(503);
+    expect(await response.text()).toBe('session store down');
+  });
+
+  it('should fail when unirbac() is missing', async () => {
+    const app = express();
+    app.get('/', requirePermission('post:read'));
+    app.use(
+      (
+        error: Error,
+        _req: Request,
+        res: express.Response,
+        _next: express.NextFunction
+      ) => {
+        res.status(500).send(error.message);
+      }
+    );
+    const url = await listen(app);
+
+    const response = await fetch(url);
+
+    expect(await response.text()).toContain('needs the unirbac() middleware');
+  });
+});
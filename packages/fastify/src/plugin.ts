@@ -0,0 +1,99 @@
+import fp from 'fastify-plugin';
+import {
+  FastifyPluginAsync,
+  FastifyReply,
+  FastifyRequest,
+  preHandlerAsyncHookHandler
+} from 'fastify';
+import { Authorization } from '@unirbac/core';
+import {
+  GuardOptions,
+  RequestCan,
+  RequestGuard,
+  RequirePermissionOptions,
+  createGuard,
+  guardResponse
+} from '@unirbac/http';
+
+export type { RequestCan, RequirePermissionOptions } from '@unirbac/http';
+
+export type UnirbacPluginOptions = GuardOptions<FastifyRequest> & {
+  /** Responds to unauthenticated requests. Defaults to a JSON 401. */
+  onUnauthenticated?: (request: FastifyRequest, reply: FastifyReply) => unknown;
+  /** Responds to denied requests. Defaults to a JSON 403 with the reason. */
+  onDenied?: (
+    request: FastifyRequest,
+    reply: FastifyReply,
+    authorization: Authorization
+  ) => unknown;
+};
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    /** `RBACEngine.can` bound to the subject of this request. */
+    can: RequestCan;
+  }
+}
+
+type RequestState = {
+  guard: RequestGuard<FastifyRequest>;
+  options: UnirbacPluginOptions;
+};
+
+const STATE = Symbol('unirbac');
+
+type GuardedRequest = FastifyRequest & { [STATE]?: RequestState };
+
+const plugin: FastifyPluginAsync<UnirbacPluginOptions> = async (fastify, options) => {
+  const guardOf = createGuard(options);
+
+  fastify.decorateRequest('can', null as unknown as RequestCan);
+
+  fastify.addHook('onRequest', async (request) => {
+    const guard = guardOf(request);
+
+    (request as GuardedRequest)[STATE] = { guard, options };
+    request.can = guard.can;
+  });
+};
+
+/**
+ * Decorates every request with `request.can`. The subject is resolved at most
+ * once per request and, with `session`, every check of a request shares one
+ * decision cache.
+ */
+export const unirbac = fp(plugin, { fastify: '5.x', name: '@unirbac/fastify' });
+
+/**
+ * A `preHandler` hook rejecting requests whose subject lacks `permission`: 401
+ * when there is no subject and 403 with `Authorization.reason` when the check
+ * fails. Requires the `unirbac` plugin.
+ */
+export const requirePermission = (
+  permission: string,
+  options: RequirePermissionOptions<FastifyRequest> = {}
+): preHandlerAsyncHookHandler => {
+  return async (request, reply) => {
+    const state = (request as GuardedRequest)[STATE];
+
+    if (!state) {
+      throw new Error('requirePermission() needs the unirbac plugin to be registered');
+    }
+
+    const { guard, options: configured } = state;
+    const decision = await guard.check(permission, options);
+
+    if (decision.outcome === 'allowed') return;
+
+    if (decision.outcome === 'unauthenticated' && configured.onUnauthenticated) {
+      await configured.onUnauthenticated(request, reply);
+    } else if (decision.outcome === 'denied' && configured.onDenied) {
+      await configured.onDenied(request, reply, decision.authorization);
+    } else {
+      const { status, body } = guardResponse(decision)!;
+      await reply.code(status).send(body);
+    }
+
+    return reply;
+  };
+};
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import Fastify, { FastifyInstance, FastifyRequest } from 'fastify';
+import { RBACEngine, Subject, resource } from '@unirbac/core';
+
+import { requirePermission, unirbac } from '../src';
+
+const posts: Record<string, { ownerId: string }> = {
+  '1': { ownerId: 'alice' },
+  '2': { ownerId: 'bob' }
+};
+
+const users: Record<string, Subject> = {
+  alice: { id: 'alice', roles: ['author'] },
+  guest: { id: 'guest', roles: ['viewer'] }
+};
+
+const userOf = (request: FastifyRequest) => users[String(request.headers['x-user'])];
+
+describe('Fastify plugin', () => {
+  let engine: RBACEngine;
+  let app: FastifyInstance;
+
+  beforeEach(async () => {
+    engine = new RBACEngine();
+    engine.addRole({ name: 'viewer', level: 10, permissions: ['post:read'] });
+    engine.addRole({
+      name: 'author',
+      level: 20,
+      permissions: ['post:*'],
+      inherits: ['viewer']
+    });
+    engine.addPolicy('post:edit', 'subject.id == resource.ownerId');
+
+    app = Fastify();
+    await app.register(unirbac, { engine, subject: userOf });
+
+    app.put<{ Params: { id: string } }>(
+      '/posts/:id',
+      {
+        preHandler: requirePermission('post:edit', {
+          resource: (request) => posts[(request.params as { id: string }).id]
+        })
+      },
+      async () => ({ updated: true })
+    );
+  });
+
+  it('should pass allowed requests through', async () => {
+    const response = await app.inject({
+      method: 'PUT',
+      url: '/posts/1',
+      headers: { 'x-user': 'alice' }
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({ updated: true });
+  });
+
+  it('should respond 403 with the reason on denial', async () => {
+    const response = await app.inject({
+      method: 'PUT',
+      url: '/posts/2',
+      headers: { 'x-user': 'alice' }
+    });
+
+    expect(response.statusCode).toBe(403);
+    expect(response.json()).toEqual({
+      error: 'Forbidden',
+      reason: 'Access denied by policy',
+      permission: 'post:edit'
+    });
+  });
+
+  it('should respond 401 without a subject', async () => {
+    const response = await app.inject({ method: 'PUT', url: '/posts/1' });
+
+    expect(response.statusCode).toBe(401);
+    expect(response.json()).toEqual({ error: 'Unauthorized' });
+  });
+
+  it('should decorate requests with can', async () => {
+    app.get<{ Params: { id: string } }>('/posts/:id', async (request) => {
+      const [read, instance] = await Promise.all([
+        request.can('post:read'),
+        request.can('read', resource({ type: 'post', id: request.params.id }))
+      ]);
+
+      return { read: read.allowed, resource: instance.allowed };
+    });
+
+    const guest = await app.inject({ url: '/posts/1', headers: { 'x-user': 'guest' } });
+    const anonymous = await app.inject({ url: '/posts/1' });
+
+    expect(guest.json()).toEqual({ read: true, resource: true });
+    expect(anonymous.json()).toEqual({ read: false, resource: false });
+  });
+
+  it('should build the context from the request', async () => {
+    const scoped = Fastify();
+    engine.addPolicy('post:read', "context.ip == '127.0.0.1'");
+    await scoped.register(unirbac, {
+      engine,
+      subject: () => users.guest,
+      context: (request) => ({ ip: request.ip })
+    });
+    scoped.get('/', { preHandler: requirePermission('post:read') }, async () => 'ok');
+
+    const local = await scoped.inject({ url: '/' });
+    const remote = await scoped.inject({ url: '/', remoteAddress: '10.0.0.1' });
+
+    expect(local.statusCode).toBe(200);
+    expect(remote.statusCode).toBe(403);
+  });
+
+  it('should use custom denial responses', async () => {
+    const custom = Fastify();
+    await custom.register(unirbac, {
+      engine,
+      subject: () => users.guest,
+      onDenied: (_request, reply, authorization) =>
+        reply.code(404).send(authorization.permission)
+    });
+    custom.delete(
+      '/',
+      { preHandler: requirePermission('post:delete') },
+      async () => 'ok'
+    );
+
+    const response = await custom.inject({ method: 'DELETE', url: '/' });
+
+    expect(response.statusCode).toBe(404);
+    expect(response.body).toBe('post:delete');
+  });
+
+  it('should fail when the plugin is not registered', async () => {
+    const bare = Fastify();
+    bare.get('/', { preHandler: requirePermission('post:read') }, async () => 'ok');
+
+    const response = await bare.inject({ url: '/' });
+
+    expect(response.statusCode).toBe(500);
+    expect(response.json().message).toContain('needs the unirbac plugin');
+  });
+});
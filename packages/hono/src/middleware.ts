@@ -0,0 +1,90 @@
+import { Context, MiddlewareHandler } from 'hono';
+import { Authorization } from '@unirbac/core';
+import {
+  GuardOptions,
+  RequestCan,
+  RequestGuard,
+  RequirePermissionOptions,
+  createGuard,
+  guardResponse
+} from '@unirbac/http';
+
+export type { RequestCan, RequirePermissionOptions } from '@unirbac/http';
+
+export type UnirbacOptions = GuardOptions<Context> & {
+  /** Responds to unauthenticated requests. Defaults to a JSON 401. */
+  onUnauthenticated?: (c: Context) => Response | Promise<Response>;
+  /** Responds to denied requests. Defaults to a JSON 403 with the reason. */
+  onDenied?: (c: Context, authorization: Authorization) => Response | Promise<Response>;
+};
+
+type RequestState = {
+  guard: RequestGuard<Context>;
+  options: UnirbacOptions;
+};
+
+/**
+ * Context variables set by `unirbac`; `c.get('can')` is `RBACEngine.can` bound
+ * to the subject of the request.
+ */
+export type UnirbacVariables = {
+  can: RequestCan;
+  unirbac: RequestState;
+};
+
+export type UnirbacEnv = { Variables: UnirbacVariables };
+
+/**
+ * Sets the `can` context variable. The subject is resolved at most once per
+ * request and, with `session`, every check of a request shares one decision
+ * cache.
+ */
+export const unirbac = (options: UnirbacOptions): MiddlewareHandler<UnirbacEnv> => {
+  const guardOf = createGuard(options);
+
+  return async (c, next) => {
+    const guard = guardOf(c);
+
+    c.set('unirbac', { guard, options });
+    c.set('can', guard.can);
+
+    await next();
+  };
+};
+
+/**
+ * Rejects requests whose subject lacks `permission`: 401 when there is no
+ * subject and 403 with `Authorization.reason` when the check fails. Requires
+ * the `unirbac` middleware earlier in the chain.
+ */
+export const requirePermission = (
+  permission: string,
+  options: RequirePermissionOptions<Context> = {}
+): MiddlewareHandler<UnirbacEnv> => {
+  return async (c, next) => {
+    const state = c.get('unirbac');
+
+    if (!state) {
+      throw new Error('requirePermission() needs the unirbac() middleware to run first');
+    }
+
+    const { guard, options: configured } = state;
+    const decision = await guard.check(permission, options);
+
+    if (decision.outcome === 'allowed') {
+      await next();
+      return;
+    }
+
+    if (decision.outcome === 'unauthenticated' && configured.onUnauthenticated) {
+      return configured.onUnauthenticated(c);
+    }
+
+    if (decision.outcome === 'denied' && configured.onDenied) {
+      return configured.onDenied(c, decision.authorization);
+    }
+
+    const { status, body } = guardResponse(decision)!;
+    return c.json(body, status);
+  };
+};
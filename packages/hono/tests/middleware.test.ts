@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Context, Hono } from 'hono';
+import { RBACEngine, Subject, resource } from '@unirbac/core';
+
+import { UnirbacEnv, requirePermission, unirbac } from '../src';
+
+const posts: Record<string, { ownerId: string }> = {
+  '1': { ownerId: 'alice' },
+  '2': { ownerId: 'bob' }
+};
+
+const users: Record<string, Subject> = {
+  alice: { id: 'alice', roles: ['author'] },
+  guest: { id: 'guest', roles: ['viewer'] }
+};
+
+const userOf = (c: Context) => users[c.req.header('x-user') ?? ''];
+
+describe('Hono middleware', () => {
+  let engine: RBACEngine;
+  let app: Hono<UnirbacEnv>;
+
+  beforeEach(() => {
+    engine = new RBACEngine();
+    engine.addRole({ name: 'viewer', level: 10, permissions: ['post:read'] });
+    engine.addRole({
+      name: 'author',
+      level: 20,
+      permissions: ['post:*'],
+      inherits: ['viewer']
+    });
+    engine.addPolicy('post:edit', 'subject.id == resource.ownerId');
+
+    app = new Hono<UnirbacEnv>();
+    app.use(unirbac({ engine, subject: userOf }));
+    app.put(
+      '/posts/:id',
+      requirePermission('post:edit', { resource: (c) => posts[c.req.param('id') ?? ''] }),
+      (c) => c.json({ updated: true })
+    );
+  });
+
+  it('should pass allowed requests through', async () => {
+    const response = await app.request('/posts/1', {
+      method: 'PUT',
+      headers: { 'x-user': 'alice' }
+    });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ updated: true });
+  });
+
+  it('should respond 403 with the reason on denial', async () => {
+    const response = await app.request('/posts/2', {
+      method: 'PUT',
+      headers: { 'x-user': 'alice' }
+    });
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toEqual({
+      error: 'Forbidden',
+      reason: 'Access denied by policy',
+      permission: 'post:edit'
+    });
+  });
+
+  it('should respond 401 without a subject', async () => {
+    const response = await app.request('/posts/1', { method: 'PUT' });
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({ error: 'Unauthorized' });
+  });
+
+  it('should expose can as a context variable', async () => {
+    app.get('/posts/:id', async (c) => {
+      const can = c.get('can');
+      const [read, instance] = await Promise.all([
+        can('post:read'),
+        can('read', resource({ type: 'post', id: c.req.param('id') }))
+      ]);
+
+      return c.json({ read: read.allowed, resource: instance.allowed });
+    });
+
+    const guest = await app.request('/posts/1', { headers: { 'x-user': 'guest' } });
+    const anonymous = await app.request('/posts/1');
+
+    expect(await guest.json()).toEqual({ read: true, resource: true });
+    expect(await anonymous.json()).toEqual({ read: false, resource: false });
+  });
+
+  it('should build the context from the request', async () => {
+    const scoped = new Hono<UnirbacEnv>();
+    engine.addPolicy('post:read', "context.region == 'eu'");
+    scoped.use(
+      unirbac({
+        engine,
+        subject: () => users.guest,
+        context: (c) => ({ region: c.req.header('x-region') })
+      })
+    );
+    scoped.get('/', requirePermission('post:read'), (c) => c.text('ok'));
+
+    const eu = await scoped.request('/', { headers: { 'x-region': 'eu' } });
+    const us = await scoped.request('/', { headers: { 'x-region': 'us' } });
+
+    expect(eu.status).toBe(200);
+    expect(us.status).toBe(403);
+  });
+
+  it('should use custom denial responses', async () => {
+    const custom = new Hono<UnirbacEnv>();
+    custom.use(
+      unirbac({
+        engine,
+        subject: () => users.guest,
+        onDenied: (c, authorization) => c.text(authorization.permission, 404)
+      })
+    );
+    custom.delete('/', requirePermission('post:delete'), (c) => c.text('ok'));
+
+    const response = await custom.request('/', { method: 'DELETE' });
+
+    expect(response.status).toBe(404);
+    expect(await response.text()).toBe('post:delete');
+  });
+
+  it('should fail when unirbac() is missing', async () => {
+    const bare = new Hono<UnirbacEnv>();
+    bare.get('/', requirePermission('post:read'), (c) => c.text('ok'));
+    bare.onError((error, c) => c.text(error.message, 500));
+
+    const response = await bare.request('/');
+
+    expect(await response.text()).toContain('needs the unirbac() middleware');
+  });
+});
@@ -0,0 +1,156 @@
+import {
+  Authorization,
+  AuthorizationContext,
+  AuthorizationSession,
+  BrandedResource,
+  RBACEngine,
+  Subject,
+  isResource
+} from '@unirbac/core';
+
+export type Awaitable<T> = T | Promise<T>;
+
+/**
+ * `RBACEngine.can` bound to the subject of the current request. Resources must
+ * be built with `resource()`.
+ */
+export type RequestCan = {
+  (permission: string, context?: AuthorizationContext): Promise<Authorization>;
+  (
+    action: string,
+    resource: BrandedResource,
+    context?: AuthorizationContext
+  ): Promise<Authorization>;
+};
+
+export type GuardOptions<Req> = {
+  engine: RBACEngine;
+  /**
+   * Resolves the subject making the request, e.g. from `req.user`. Returning
+   * `undefined` treats the request as unauthenticated.
+   */
+  subject: (req: Req) => Awaitable<Subject | undefined>;
+  /** Builds the context shared by every check of a request, e.g. its IP. */
+  context?: (req: Req) => Awaitable<AuthorizationContext>;
+  /**
+   * Shares one `engine.session()` decision cache between the checks of a
+   * request. Off by default, so every check is evaluated unless the engine
+   * itself caches.
+   */
+  session?: boolean;
+};
+
+export type RequirePermissionOptions<Req> = {
+  /**
+   * Loads the resource the permission applies to. Policies see it as
+   * `context.resource`, e.g. `subject.id == resource.ownerId`. A resource
+   * built with `resource()` turns the permission into an action on it, so
+   * instance grants (`document:123:edit`) and its scope apply.
+   */
+  resource?: (
+    req: Req
+  ) => Awaitable<BrandedResource | Record<string, unknown> | undefined>;
+  context?: (req: Req) => Awaitable<AuthorizationContext>;
+};
+
+export type GuardDecision =
+  | { outcome: 'allowed'; authorization: Authorization }
+  | { outcome: 'denied'; authorization: Authorization }
+  | { outcome: 'unauthenticated' };
+
+export type GuardResponse = {
+  status: 401 | 403;
+  body: Record<string, unknown>;
+};
+
+export type RequestGuard<Req> = {
+  subject: () => Promise<Subject | undefined>;
+  can: RequestCan;
+  /**
+   * Checks `permission` for the request, adding the resource and context
+   * selected by `options` to the request context.
+   */
+  check: (
+    permission: string,
+    options?: RequirePermissionOptions<Req>
+  ) => Promise<GuardDecision>;
+};
+
+/**
+ * Maps a decision to the response sent instead of running the handler: 401
+ * without a subject and 403 with `Authorization.reason` on denial.
+ */
+export const guardResponse = (decision: GuardDecision): GuardResponse | undefined => {
+  switch (decision.outcome) {
+    case 'allowed':
+      return undefined;
+    case 'unauthenticated':
+      return { status: 401, body: { error: 'Unauthorized' } };
+    case 'denied': {
+      const { reason, permission } = decision.authorization;
+      return { status: 403, body: { error: 'Forbidden', reason, permission } };
+    }
+  }
+};
+
+/**
+ * Framework-neutral core of the HTTP integrations. The returned function
+ * creates the guard of one request: its subject and base context are resolved
+ * at most once and, with `session`, its checks share one decision cache.
+ */
+export const createGuard = <Req>(
+  options: GuardOptions<Req>
+): ((req: Req) => RequestGuard<Req>) => {
+  return (req) => {
+    let subject: Promise<Subject | undefined> | undefined;
+    let context: Promise<AuthorizationContext> | undefined;
+    let session: AuthorizationSession | undefined;
+
+    const resolveSubject = () =>
+      (subject ??= Promise.resolve().then(() => options.subject(req)));
+
+    const baseContext = () =>
+      (context ??= Promise.resolve().then(
+        async () => (await options.context?.(req)) ?? {}
+      ));
+
+    const can = async (
+      permission: string,
+      target: AuthorizationContext | BrandedResource = {},
+      extra: AuthorizationContext = {}
+    ): Promise<Authorization> => {
+      const [resolved, base] = await Promise.all([resolveSubject(), baseContext()]);
+
+      if (!resolved) {
+        return { allowed: false, reason: 'No authenticated subject', permission };
+      }
+
+      const checker = options.session
+        ? (session ??= options.engine.session())
+        : options.engine;
+
+      return isResource(target)
+        ? checker.can(resolved, permission, target, { ...base, ...extra })
+        : checker.can(resolved, permission, { ...base, ...target });
+    };
+
+    const check = async (
+      permission: string,
+      { resource, context }: RequirePermissionOptions<Req> = {}
+    ): Promise<GuardDecision> => {
+      if (!(await resolveSubject())) return { outcome: 'unauthenticated' };
+
+      const [selected, loaded] = await Promise.all([context?.(req), resource?.(req)]);
+      const authorization = isResource(loaded)
+        ? await can(permission, loaded, selected)
+        : await can(permission, {
+            ...selected,
+            ...(loaded !== undefined && { resource: loaded })
+          });
+
+      return { outcome: authorization.allowed ? 'allowed' : 'denied', authorization };
+    };
+
+    return { subject: resolveSubject, can: can as RequestCan, check };
+  };
+};
@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { RBACEngine, Subject, resource } from '@unirbac/core';
+
+import { createGuard, guardResponse } from '../src';
+
+type FakeRequest = {
+  user?: Subject;
+  ip: string;
+  post?: { ownerId: string };
+};
+
+describe('HTTP guard', () => {
+  let engine: RBACEngine;
+
+  const alice: Subject = { id: 'alice', roles: ['author'] };
+
+  beforeEach(() => {
+    engine = new RBACEngine();
+    engine.addRole({ name: 'author', level: 20, permissions: ['post:*'] });
+    engine.addPolicy('post:edit', 'subject.id == resource.ownerId');
+  });
+
+  it('should resolve the subject once per request', async () => {
+    const subject = vi.fn((req: FakeRequest) => req.user);
+    const guard = createGuard({ engine, subject })({ user: alice, ip: '::1' });
+
+    await Promise.all([guard.can('post:read'), guard.check('post:create')]);
+
+    expect(subject).toHaveBeenCalledTimes(1);
+  });
+
+  it('should check permissions against the selected resource', async () => {
+    const guardOf = createGuard({ engine, subject: (req: FakeRequest) => req.user });
+    const options = { resource: (req: FakeRequest) => req.post };
+
+    const own = await guardOf({
+      user: alice,
+      ip: '::1',
+      post: { ownerId: 'alice' }
+    }).check('post:edit', options);
+    const foreign = await guardOf({
+      user: alice,
+      ip: '::1',
+      post: { ownerId: 'bob' }
+    }).check('post:edit', options);
+
+    expect(own.outcome).toBe('allowed');
+    expect(foreign).toMatchObject({
+      outcome: 'denied',
+      authorization: { reason: 'Access denied by policy' }
+    });
+  });
+
+  it('should not reuse decisions for other resources of the same request', async () => {
+    engine.addPolicy('post:delete', ({ subject, context }) => {
+      const post = context.resource as { ownerId: string } | undefined;
+      return post?.ownerId === subject.id;
+    });
+
+    for (const session of [false, true]) {
+      const guard = createGuard({
+        engine,
+        session,
+        subject: (req: FakeRequest) => req.user
+      })({ user: alice, ip: '::1' });
+
+      const own = await guard.check('post:delete', {
+        resource: () => ({ ownerId: 'alice' })
+      });
+      const foreign = await guard.can('post:delete', { resource: { ownerId: 'bob' } });
+
+      expect(own.outcome).toBe('allowed');
+      expect(foreign.allowed).toBe(false);
+    }
+  });
+
+  it('should check actions on loaded resources', async () => {
+    engine.addRole({ name: 'reviewer', level: 10, permissions: ['document:7:edit'] });
+    engine.addRole({ name: 'member', level: 10, permissions: ['document:read'] });
+
+    const bob: Subject = {
+      id: 'bob',
+      roles: ['reviewer', { role: 'member', scope: 'org:a' }]
+    };
+    const guard = createGuard({ engine, subject: () => bob })({ ip: '::1' });
+    const load = (id: string, scope?: string) => () =>
+      resource({ type: 'document', id, ...(scope && { scope }) });
+
+    const edit = await guard.check('edit', { resource: load('7') });
+    const other = await guard.check('edit', { resource: load('8') });
+    const scoped = await guard.check('read', { resource: load('8', 'org:a') });
+    const unscoped = await guard.check('read', { resource: load('8') });
+
+    expect(edit).toMatchObject({
+      outcome: 'allowed',
+      authorization: { permission: 'document:7:edit' }
+    });
+    expect(other.outcome).toBe('denied');
+    expect(scoped.outcome).toBe('allowed');
+    expect(unscoped.outcome).toBe('denied');
+  });
+
+  it('should merge the request context into every check', async () => {
+    engine.addPolicy('post:read', "context.ip != '10.0.0.1'");
+    const guardOf = createGuard({
+      engine,
+      subject: (req: FakeRequest) => req.user,
+      context: (req) => ({ ip: req.ip })
+    });
+
+    const blocked = guardOf({ user: alice, ip: '10.0.0.1' });
+    const allowed = guardOf({ user: alice, ip: '10.0.0.2' });
+
+    expect((await blocked.can('post:read')).allowed).toBe(false);
+    expect((await blocked.can('read', resource({ type: 'post', id: '1' }))).allowed).toBe(
+      false
+    );
+    expect((await allowed.can('read', resource({ type: 'post', id: '1' }))).allowed).toBe(
+      true
+    );
+  });
+
+  it('should only take resources built with resource() alongside a context', async () => {
+    const guard = createGuard({ engine, subject: (req: FakeRequest) => req.user })({
+      user: alice,
+      ip: '::1'
+    });
+    const plain = { type: 'post', id: '1' };
+
+    // @ts-expect-error a plain object is a context, so no context may follow it
+    await guard.can('read', plain, { ip: '::1' });
+    // @ts-expect-error the same holds for the engine
+    await engine.can(alice, 'read', plain, { ip: '::1' });
+
+    expect((await guard.can('read', resource(plain), { ip: '::1' })).allowed).toBe(true);
+  });
+
+  it('should report requests without a subject as unauthenticated', async () => {
+    const guard = createGuard({ engine, subject: () => undefined })({ ip: '::1' });
+
+    expect(await guard.check('post:read')).toEqual({ outcome: 'unauthenticated' });
+    expect(await guard.can('post:read')).toEqual({
+      allowed: false,
+      reason: 'No authenticated subject',
+      permission: 'post:read'
+    });
+  });
+
+  it('should map decisions to responses', () => {
+    const authorization = {
+      allowed: false,
+      reason: 'Access denied by policy',
+      permission: 'post:edit'
+    };
+
+    expect(
+      guardResponse({
+        outcome: 'allowed',
+        authorization: { ...authorization, allowed: true }
+      })
+    ).toBeUndefined();
+    expect(guardResponse({ outcome: 'unauthenticated' })).toEqual({
+      status: 401,
+      body: { error: 'Unauthorized' }
+    });
+    expect(guardResponse({ outcome: 'denied', authorization })).toEqual({
+      status: 403,
+      body: {
+        error: 'Forbidden',
+        reason: 'Access denied by policy',
+        permission: 'post:edit'
+      }
+    });
+  });
+});
@@ -0,0 +1,11 @@
+import { fileURLToPath } from 'node:url';
+
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@unirbac/core': fileURLToPath(new URL('../core/src/index.ts', import.meta.url))
+    }
+  }
+});
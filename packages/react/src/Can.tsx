@@ -0,0 +1,54 @@
+import { ReactNode } from 'react';
+import { AuthorizationContext, Resource, resource as asResource } from '@unirbac/core';
+
+import { CanAuthorization } from './RBACProvider';
+import { useCan } from './useCan';
+
+export type CanProps = {
+  /** The permission, or the action when `resource` is given. */
+  I: string;
+  /** Checked as a resource, whether or not it was built with `resource()`. */
+  resource?: Resource;
+  context?: AuthorizationContext;
+  /** Rendered when the check does not pass. */
+  fallback?: ReactNode;
+  /** Rendered while the decision is pending. Defaults to nothing. */
+  loading?: ReactNode;
+  children?: ReactNode | ((authorization: CanAuthorization) => ReactNode);
+};
+
+const useDecision = ({ I, resource, context }: CanProps) => {
+  return resource ? useCan(I, asResource(resource), context) : useCan(I, context);
+};
+
+const render = (
+  children: CanProps['children'],
+  authorization: CanAuthorization | undefined
+): ReactNode => {
+  return typeof children === 'function'
+    ? authorization && children(authorization)
+    : children;
+};
+
+/**
+ * Renders its children when the subject of the nearest `RBACProvider` may do
+ * `I`, e.g. `<Can I="post:edit" fallback={<ReadOnly />}>`.
+ */
+export const Can = (props: CanProps) => {
+  const { allowed, loading, authorization } = useDecision(props);
+
+  if (loading) return <>{props.loading}</>;
+
+  return <>{allowed ? render(props.children, authorization) : props.fallback}</>;
+};
+
+/**
+ * Renders its children when the subject may not do `I`, the inverse of `<Can>`.
+ */
+export const Cannot = (props: CanProps) => {
+  const { allowed, loading, authorization } = useDecision(props);
+
+  if (loading) return <>{props.loading}</>;
+
+  return <>{allowed ? props.fallback : render(props.children, authorization)}</>;
+};
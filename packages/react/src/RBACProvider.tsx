@@ -0,0 +1,153 @@
+import {
+  ReactNode,
+  createContext,
+  useContext,
+  useEffect,
+  useMemo,
+  useState
+} from 'react';
+import {
+  Authorization,
+  AuthorizationContext,
+  BrandedResource,
+  PermissionSnapshot,
+  PolicyDocument,
+  RBACEngine,
+  SnapshotEvaluator,
+  Subject,
+  loadDocument
+} from '@unirbac/core';
+
+export type RBACProviderProps = {
+  /** An engine configured in the browser. */
+  engine?: RBACEngine;
+  /**
+   * A policy document serialized by the server, e.g. from `engine.toDocument()`,
+   * used to build an engine when none is given.
+   */
+  document?: PolicyDocument | string;
+  /**
+   * A snapshot from `engine.snapshot(subject)` on the server. Checks are
+   * answered from it, and policy-gated permissions are refused with `gated`.
+   */
+  snapshot?: PermissionSnapshot | string;
+  /** The current subject; `null` while nobody is signed in. Not needed with a snapshot. */
+  subject?: Subject | null;
+  children?: ReactNode;
+};
+
+export type CanAuthorization = Authorization & {
+  /** Answered from a snapshot, but the permission needs a server check. */
+  gated?: boolean;
+};
+
+export type RBACContextValue = {
+  engine?: RBACEngine;
+  snapshot?: SnapshotEvaluator;
+  subject: Subject | null;
+  /**
+   * Checks the current subject, sharing one decision cache. Decisions that
+   * involve contextual policies are evaluated for every check.
+   */
+  can: (
+    permission: string,
+    target?: AuthorizationContext | BrandedResource,
+    context?: AuthorizationContext
+  ) => Promise<CanAuthorization>;
+};
+
+const RBACContext = createContext<RBACContextValue | undefined>(undefined);
+
+const useEngine = (engine?: RBACEngine, document?: PolicyDocument | string) => {
+  return useMemo(() => {
+    if (engine || document === undefined) return engine;
+
+    const created = new RBACEngine();
+    loadDocument(created, document);
+
+    return created;
+  }, [engine, document]);
+};
+
+/**
+ * Re-renders when the engine's roles or policies change.
+ */
+const useRevision = (engine?: RBACEngine): number => {
+  const [revision, setRevision] = useState(0);
+
+  useEffect(() => {
+    if (!engine) return;
+
+    const changed = () => setRevision((current) => current + 1);
+    const unsubscribe = [
+      engine.on('roleAdded', changed),
+      engine.on('roleUpdated', changed),
+      engine.on('roleRemoved', changed),
+      engine.on('policyChanged', changed)
+    ];
+
+    return () => unsubscribe.forEach((off) => off());
+  }, [engine]);
+
+  return revision;
+};
+
+/**
+ * Makes an engine, or a server snapshot, and the current subject available to
+ * `useCan`, `<Can>` and `<Cannot>`. Checks are re-run when the subject, the
+ * snapshot or the engine's roles and policies change.
+ */
+export const RBACProvider = ({
+  engine,
+  document,
+  snapshot,
+  subject = null,
+  children
+}: RBACProviderProps) => {
+  const resolved = useEngine(engine, document);
+  const revision = useRevision(resolved);
+
+  const evaluator = useMemo(
+    () => (snapshot === undefined ? undefined : new SnapshotEvaluator(snapshot)),
+    [snapshot]
+  );
+
+  const value = useMemo((): RBACContextValue => {
+    if (evaluator) {
+      return {
+        snapshot: evaluator,
+        subject,
+        can: async (permission, target) =>
+          evaluator.can(permission, target as BrandedResource | undefined)
+      };
+    }
+
+    if (!resolved) {
+      throw new Error('RBACProvider needs an engine, a policy document or a snapshot');
+    }
+
+    // A new session per revision drops decisions cached before the change.
+    const session = resolved.session();
+
+    return {
+      engine: resolved,
+      subject,
+      can: async (permission, target = {}, context = {}) =>
+        subject
+          ? session.can(subject, permission, target as BrandedResource, context)
+          : { allowed: false, reason: 'No authenticated subject', permission }
+    };
+  }, [resolved, evaluator, subject, revision]);
+
+  return <RBACContext.Provider value={value}>{children}</RBACContext.Provider>;
+};
+
+export const useRBAC = (): RBACContextValue => {
+  const value = useContext(RBACContext);
+
+  if (!value) {
+    throw new Error('useRBAC() must be used inside <RBACProvider>');
+  }
+
+  return value;
+};
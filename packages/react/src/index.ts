@@ -0,0 +1,3 @@
+export * from './RBACProvider';
+export * from './useCan';
+export * from './Can';
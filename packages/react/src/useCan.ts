@@ -0,0 +1,84 @@
+import { useEffect, useState } from 'react';
+import { AuthorizationContext, BrandedResource, isResource } from '@unirbac/core';
+
+import { CanAuthorization, useRBAC } from './RBACProvider';
+
+export type CanState = {
+  allowed: boolean;
+  /** True until the first decision for the current arguments arrives. */
+  loading: boolean;
+  authorization?: CanAuthorization;
+  error?: unknown;
+};
+
+export type UseCan = {
+  (permission: string, context?: AuthorizationContext): CanState;
+  (action: string, resource: BrandedResource, context?: AuthorizationContext): CanState;
+};
+
+type Decided = {
+  key: string;
+  authorization?: CanAuthorization;
+  error?: unknown;
+};
+
+const identities = new WeakMap<object, number>();
+let nextIdentity = 0;
+
+const identityOf = (value: object): number => {
+  if (!identities.has(value)) identities.set(value, nextIdentity++);
+  return identities.get(value)!;
+};
+
+/**
+ * Arguments are often inline objects, so decisions are keyed by content.
+ * Values JSON cannot represent (cycles, bigints) fall back to their identity.
+ */
+const keyOf = (...values: object[]): string => {
+  try {
+    return JSON.stringify(values);
+  } catch {
+    return values.map(identityOf).join(':');
+  }
+};
+
+/**
+ * Checks a permission, or an action on a resource built with `resource()`, for
+ * the subject of the nearest `RBACProvider`. `allowed` stays false while the
+ * decision is pending, without a subject, when a policy throws and, with a
+ * snapshot, when the permission is policy-gated.
+ */
+export const useCan: UseCan = (
+  permission: string,
+  target: AuthorizationContext | BrandedResource = {},
+  context: AuthorizationContext = {}
+): CanState => {
+  const { subject, can } = useRBAC();
+  const [decided, setDecided] = useState<Decided>();
+  const kind = isResource(target) ? 'resource' : 'context';
+  const key = `${permission}:${kind}:${keyOf(target, context, subject ?? {})}`;
+
+  useEffect(() => {
+    let current = true;
+
+    can(permission, target, context).then(
+      (authorization) => current && setDecided({ key, authorization }),
+      (error: unknown) => current && setDecided({ key, error })
+    );
+
+    return () => {
+      current = false;
+    };
+  }, [key, can]);
+
+  if (decided?.key !== key) {
+    return { allowed: false, loading: true };
+  }
+
+  return {
+    allowed: decided.authorization?.allowed ?? false,
+    loading: false,
+    ...(decided.authorization && { authorization: decided.authorization }),
+    ...(decided.error !== undefined && { error: decided.error })
+  };
+};
@@ -0,0 +1,252 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  act,
+  cleanup,
+  render,
+  renderHook,
+  screen,
+  waitFor
+} from '@testing-library/react';
+import { ReactNode } from 'react';
+import { RBACEngine, Subject, resource } from '@unirbac/core';
+
+import { Can, Cannot, RBACProvider, useCan } from '../src';
+
+describe('React bindings', () => {
+  let engine: RBACEngine;
+
+  const alice: Subject = { id: 'alice', roles: ['author'] };
+  const guest: Subject = { id: 'guest', roles: ['viewer'] };
+
+  beforeEach(() => {
+    engine = new RBACEngine();
+    engine.addRole({ name: 'viewer', level: 10, permissions: ['post:read'] });
+    engine.addRole({
+      name: 'author',
+      level: 20,
+      permissions: ['post:*'],
+      inherits: ['viewer']
+    });
+    engine.addPolicy('post:edit', 'subject.id == resource.ownerId');
+  });
+
+  afterEach(cleanup);
+
+  const wrapper =
+    (subject: Subject | null) =>
+    ({ children }: { children: ReactNode }) => (
+      <RBACProvider engine={engine} subject={subject}>
+        {children}
+      </RBACProvider>
+    );
+
+  describe('useCan', () => {
+    it('should report loading until the decision arrives', async () => {
+      const { result } = renderHook(() => useCan('post:read'), {
+        wrapper: wrapper(alice)
+      });
+
+      expect(result.current).toEqual({ allowed: false, loading: true });
+
+      await waitFor(() => expect(result.current.loading).toBe(false));
+
+      expect(result.current).toMatchObject({
+        allowed: true,
+        authorization: { allowed: true, permission: 'post:read' }
+      });
+    });
+
+    it('should evaluate async policies with the given context', async () => {
+      engine.addPolicy(
+        'post:publish',
+        async ({ context }) =>
+          new Promise((resolve) =>
+            setTimeout(() => resolve(context.approved === true), 5)
+          )
+      );
+
+      const { result } = renderHook(
+        ({ approved }) => useCan('post:publish', { approved }),
+        { wrapper: wrapper(alice), initialProps: { approved: true } }
+      );
+
+      await waitFor(() => expect(result.current.allowed).toBe(true));
+    });
+
+    it('should check actions on resources', async () => {
+      const { result } = renderHook(
+        () => useCan('read', resource({ type: 'post', id: '1' })),
+        {
+          wrapper: wrapper(guest)
+        }
+      );
+
+      await waitFor(() => expect(result.current.loading).toBe(false));
+
+      expect(result.current.authorization?.permission).toBe('post:1:read');
+    });
+
+    it('should deny without a subject', async () => {
+      const { result } = renderHook(() => useCan('post:read'), {
+        wrapper: wrapper(null)
+      });
+
+      await waitFor(() => expect(result.current.loading).toBe(false));
+
+      expect(result.current).toMatchObject({
+        allowed: false,
+        authorization: { reason: 'No authenticated subject' }
+      });
+    });
+
+    it('should re-check when the arguments change', async () => {
+      const { result, rerender } = renderHook(
+        ({ ownerId }) => useCan('post:edit', { resource: { ownerId } }),
+        { wrapper: wrapper(alice), initialProps: { ownerId: 'alice' } }
+      );
+
+      await waitFor(() => expect(result.current.allowed).toBe(true));
+
+      rerender({ ownerId: 'bob' });
+
+      expect(result.current.loading).toBe(true);
+      await waitFor(() => expect(result.current.loading).toBe(false));
+      expect(result.current.allowed).toBe(false);
+    });
+
+    it('should re-check when roles change', async () => {
+      const { result } = renderHook(() => useCan('post:share'), {
+        wrapper: wrapper(guest)
+      });
+
+      await waitFor(() => expect(result.current.loading).toBe(false));
+      expect(result.current.allowed).toBe(false);
+
+      act(() => {
+        engine.updateRole({ name: 'viewer', level: 10, permissions: ['post:*'] });
+      });
+
+      await waitFor(() => expect(result.current.allowed).toBe(true));
+    });
+
+    it('should surface policy errors as denials', async () => {
+      engine.addPolicy('post:delete', () => {
+        throw new Error('policy failed');
+      });
+
+      const { result } = renderHook(() => useCan('post:delete'), {
+        wrapper: wrapper(alice)
+      });
+
+      await waitFor(() => expect(result.current.loading).toBe(false));
+
+      expect(result.current.allowed).toBe(false);
+    });
+
+    it('should require a provider', () => {
+      expect(() => renderHook(() => useCan('post:read'))).toThrow(
+        'useRBAC() must be used inside <RBACProvider>'
+      );
+    });
+  });
+
+  describe('<Can> and <Cannot>', () => {
+    it('should render children or the fallback', async () => {
+      render(
+        <RBACProvider engine={engine} subject={guest}>
+          <Can I="post:read" loading="checking">
+            <p>post</p>
+          </Can>
+          <Can I="post:delete" fallback={<p>read only</p>}>
+            <button>delete</button>
+          </Can>
+          <Cannot I="post:delete">
+            <p>no delete</p>
+          </Cannot>
+        </RBACProvider>
+      );
+
+      expect(screen.getByText('checking')).toBeTruthy();
+
+      await screen.findByText('post');
+
+      expect(screen.getByText('read only')).toBeTruthy();
+      expect(screen.getByText('no delete')).toBeTruthy();
+      expect(screen.queryByText('delete')).toBeNull();
+      expect(screen.queryByText('checking')).toBeNull();
+    });
+
+    it('should check resources and pass the authorization to render functions', async () => {
+      render(
+        <RBACProvider engine={engine} subject={alice}>
+          <Can I="read" resource={{ type: 'post', id: '7' }}>
+            {(authorization) => <p>{authorization.permission}</p>}
+          </Can>
+          <Cannot I="post:edit" context={{ resource: { ownerId: 'bob' } }}>
+            {(authorization) => <p>{authorization.reason}</p>}
+          </Cannot>
+        </RBACProvider>
+      );
+
+      expect(await screen.findByText('post:7:read')).toBeTruthy();
+      expect(await screen.findByText('Access denied by policy')).toBeTruthy();
+    });
+
+    it('should check elements that differ only by context separately', async () => {
+      engine.addPolicy(
+        'post:delete',
+        ({ subject, context }) => context.ownerId === subject.id
+      );
+
+      render(
+        <RBACProvider engine={engine} subject={alice}>
+          <Can I="post:delete" context={{ ownerId: 'alice' }} fallback={<p>keep own</p>}>
+            <button>delete own</button>
+          </Can>
+          <Can
+            I="post:delete"
+            context={{ ownerId: 'bob' }}
+            fallback={<p>keep foreign</p>}
+          >
+            <button>delete foreign</button>
+          </Can>
+        </RBACProvider>
+      );
+
+      expect(await screen.findByText('delete own')).toBeTruthy();
+      expect(await screen.findByText('keep foreign')).toBeTruthy();
+      expect(screen.queryByText('delete foreign')).toBeNull();
+    });
+
+    it('should answer from a server snapshot', async () => {
+      engine.addPolicy('post:publish', () => true);
+      const snapshot = JSON.stringify(await engine.snapshot(alice));
+
+      render(
+        <RBACProvider snapshot={snapshot}>
+          <Can I="post:delete">
+            <p>delete</p>
+          </Can>
+          <Cannot I="post:publish">
+            {(authorization) => <p>{authorization.gated ? 'ask server' : 'no'}</p>}
+          </Cannot>
+        </RBACProvider>
+      );
+
+      expect(await screen.findByText('delete')).toBeTruthy();
+      expect(await screen.findByText('ask server')).toBeTruthy();
+    });
+
+    it('should build an engine from a serialized document', async () => {
+      render(
+        <RBACProvider document={JSON.stringify(engine.toDocument())} subject={guest}>
+          <Can I="post:read">
+            <p>allowed</p>
+          </Can>
+        </RBACProvider>
+      );
+
+      expect(await screen.findByText('allowed')).toBeTruthy();
+    });
+  });
+});
@@ -0,0 +1,14 @@
+import { fileURLToPath } from 'node:url';
+
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    environment: 'happy-dom'
+  },
+  resolve: {
+    alias: {
+      '@unirbac/core': fileURLToPath(new URL('../core/src/index.ts', import.meta.url))
+    }
+  }
+});
@@ -0,0 +1,367 @@
+import type {
+  AssignmentWindow,
+  Permission,
+  PermissionAssignment,
+  Role,
+  RoleAssignment,
+  StorageAdapter,
+  Subject
+} from '@unirbac/core';
+
+import { SqlDatabase } from './driver';
+import { migrate } from './migrations';
+
+type RoleRow = { name: string; level: number };
+type RuleRow = { role: string; kind: 'grant' | 'deny'; pattern: string };
+type InheritRow = { role: string; parent: string };
+type SubjectRow = { id: string; attributes: string | null };
+type WindowRow = { valid_from: string | null; valid_until: string | null };
+type AssignmentRow = WindowRow & { role: string; scope: string | null };
+type PatternRow = WindowRow & { pattern: string };
+type PermissionRow = { name: string; description: string | null };
+
+const IN_LIST = 'IN (SELECT value FROM json_each(?))';
+
+const toBound = (value: Date | string | undefined): string | null => {
+  if (value === undefined) return null;
+  return value instanceof Date ? value.toISOString() : value;
+};
+
+const windowOf = ({ valid_from, valid_until }: WindowRow): AssignmentWindow => ({
+  ...(valid_from !== null && { validFrom: valid_from }),
+  ...(valid_until !== null && { validUntil: valid_until })
+});
+
+/**
+ * Synchronous reads and writes against the migrated tables. Empty `inherits`,
+ * `denies` and subject `permissions` arrays are not stored separately and read
+ * back as absent.
+ */
+class SqlStore {
+  constructor(private db: SqlDatabase) {}
+
+  getRoles = (names: string[]): Role[] => {
+    const list = JSON.stringify([...new Set(names)]);
+    const roles = new Map<string, Required<Role>>();
+
+    const rows = this.db
+      .prepare(
+        `SELECT name, level FROM unirbac_roles WHERE name ${IN_LIST} ORDER BY name`
+      )
+      .all(list) as RoleRow[];
+
+    rows.forEach(({ name, level }) =>
+      roles.set(name, { name, level, permissions: [], inherits: [], denies: [] })
+    );
+
+    const rules = this.db
+      .prepare(
+        `SELECT role, kind, pattern FROM unirbac_role_rules WHERE role ${IN_LIST} ORDER BY role, kind, position`
+      )
+      .all(list) as RuleRow[];
+
+    rules.forEach(({ role, kind, pattern }) => {
+      const target = roles.get(role);
+      target?.[kind === 'grant' ? 'permissions' : 'denies'].push(pattern);
+    });
+
+    const inherits = this.db
+      .prepare(
+        `SELECT role, parent FROM unirbac_role_inherits WHERE role ${IN_LIST} ORDER BY role, position`
+      )
+      .all(list) as InheritRow[];
+
+    inherits.forEach(({ role, parent }) => roles.get(role)?.inherits.push(parent));
+
+    return [...roles.values()].map(({ inherits, denies, ...role }) => ({
+      ...role,
+      ...(inherits.length > 0 && { inherits }),
+      ...(denies.length > 0 && { denies })
+    }));
+  };
+
+  /**
+   * Collects the named roles and all of their ancestors with one recursive
+   * query, then reads them in three more queries regardless of graph depth.
+   */
+  getRoleGraph = (names: string[]): Role[] => {
+    const rows = this.db
+      .prepare(
+        `WITH RECURSIVE graph(name) AS (
+           SELECT value FROM json_each(?)
+           UNION
+           SELECT inherits.parent
+             FROM unirbac_role_inherits AS inherits
+             JOIN graph ON inherits.role = graph.name
+         )
+         SELECT name FROM graph`
+      )
+      .all(JSON.stringify(names)) as { name: string }[];
+
+    return this.getRoles(rows.map((row) => row.name));
+  };
+
+  listRoles = (): Role[] => {
+    const rows = this.db.prepare('SELECT name FROM unirbac_roles').all() as {
+      name: string;
+    }[];
+    return this.getRoles(rows.map((row) => row.name));
+  };
+
+  saveRole = (role: Role): void => {
+    this.db
+      .prepare(
+        'INSERT INTO unirbac_roles (name, level) VALUES (?, ?) ON CONFLICT (name) DO UPDATE SET level = excluded.level'
+      )
+      .run(role.name, role.level);
+
+    this.db.prepare('DELETE FROM unirbac_role_rules WHERE role = ?').run(role.name);
+    this.db.prepare('DELETE FROM unirbac_role_inherits WHERE role = ?').run(role.name);
+
+    const rule = this.db.prepare(
+      'INSERT INTO unirbac_role_rules (role, kind, position, pattern) VALUES (?, ?, ?, ?)'
+    );
+    role.permissions.forEach((pattern, i) => rule.run(role.name, 'grant', i, pattern));
+    role.denies?.forEach((pattern, i) => rule.run(role.name, 'deny', i, pattern));
+
+    const inherit = this.db.prepare(
+      'INSERT INTO unirbac_role_inherits (role, position, parent) VALUES (?, ?, ?)'
+    );
+    role.inherits?.forEach((parent, i) => inherit.run(role.name, i, parent));
+  };
+
+  deleteRole = (name: string): void => {
+    this.db.prepare('DELETE FROM unirbac_role_rules WHERE role = ?').run(name);
+    this.db.prepare('DELETE FROM unirbac_role_inherits WHERE role = ?').run(name);
+    this.db.prepare('DELETE FROM unirbac_roles WHERE name = ?').run(name);
+  };
+
+  getSubject = (id: string): Subject | undefined => {
+    const row = this.db
+      .prepare('SELECT id, attributes FROM unirbac_subjects WHERE id = ?')
+      .get(id) as SubjectRow | undefined;
+
+    if (!row) return undefined;
+
+    const roles = this.db
+      .prepare(
+        'SELECT role, scope, valid_from, valid_until FROM unirbac_subject_roles WHERE subject = ? ORDER BY position'
+      )
+      .all(id) as AssignmentRow[];
+
+    const permissions = this.db
+      .prepare(
+        'SELECT pattern, valid_from, valid_until FROM unirbac_subject_permissions WHERE subject = ? ORDER BY position'
+      )
+      .all(id) as PatternRow[];
+
+    return {
+      id: row.id,
+      roles: roles.map((row): string | RoleAssignment => {
+        const window = windowOf(row);
+
+        return row.scope === null && Object.keys(window).length === 0
+          ? row.role
+          : {
+              role: row.role,
+              ...(row.scope !== null && { scope: row.scope }),
+              ...window
+            };
+      }),
+      ...(permissions.length > 0 && {
+        permissions: permissions.map((row): string | PermissionAssignment => {
+          const window = windowOf(row);
+
+          return Object.keys(window).length === 0
+            ? row.pattern
+            : { permission: row.pattern, ...window };
+        })
+      }),
+      ...(row.attributes !== null && { attributes: JSON.parse(row.attributes) })
+    };
+  };
+
+  saveSubject = (subject: Subject): void => {
+    this.db
+      .prepare(
+        'INSERT INTO unirbac_subjects (id, attributes) VALUES (?, ?) ON CONFLICT (id) DO UPDATE SET attributes = excluded.attributes'
+      )
+      .run(
+        subject.id,
+        subject.attributes === undefined ? null : JSON.stringify(subject.attributes)
+      );
+
+    this.deleteAssignments(subject.id);
+
+    const assignment = this.db.prepare(
+      'INSERT INTO unirbac_subject_roles (subject, position, role, scope, valid_from, valid_until) VALUES (?, ?, ?, ?, ?, ?)'
+    );
+    subject.roles.forEach((entry, i) => {
+      const { role, scope, validFrom, validUntil }: RoleAssignment =
+        typeof entry === 'string' ? { role: entry } : entry;
+
+      assignment.run(
+        subject.id,
+        i,
+        role,
+        scope ?? null,
+        toBound(validFrom),
+        toBound(validUntil)
+      );
+    });
+
+    const permission = this.db.prepare(
+      'INSERT INTO unirbac_subject_permissions (subject, position, pattern, valid_from, valid_until) VALUES (?, ?, ?, ?, ?)'
+    );
+    subject.permissions?.forEach((entry, i) => {
+      const {
+        permission: pattern,
+        validFrom,
+        validUntil
+      }: PermissionAssignment = typeof entry === 'string' ? { permission: entry } : entry;
+
+      permission.run(subject.id, i, pattern, toBound(validFrom), toBound(validUntil));
+    });
+  };
+
+  deleteSubject = (id: string): void => {
+    this.deleteAssignments(id);
+    this.db.prepare('DELETE FROM unirbac_subjects WHERE id = ?').run(id);
+  };
+
+  listPermissions = (): Permission[] => {
+    const rows = this.db
+      .prepare('SELECT name, description FROM unirbac_permissions ORDER BY name')
+      .all() as PermissionRow[];
+
+    return rows.map(({ name, description }) => ({
+      name,
+      ...(description !== null && { description })
+    }));
+  };
+
+  savePermission = (permission: Permission): void => {
+    this.db
+      .prepare(
+        'INSERT INTO unirbac_permissions (name, description) VALUES (?, ?) ON CONFLICT (name) DO UPDATE SET description = excluded.description'
+      )
+      .run(permission.name, permission.description ?? null);
+  };
+
+  deletePermission = (name: string): void => {
+    this.db.prepare('DELETE FROM unirbac_permissions WHERE name = ?').run(name);
+  };
+
+  private deleteAssignments = (id: string): void => {
+    this.db.prepare('DELETE FROM unirbac_subject_roles WHERE subject = ?').run(id);
+    this.db.prepare('DELETE FROM unirbac_subject_permissions WHERE subject = ?').run(id);
+  };
+}
+
+/**
+ * A `StorageAdapter` over a SQLite connection from `node:sqlite` or
+ * `better-sqlite3`. Run `migrate()` once before use. Operations on one adapter
+ * run one at a time, every write is atomic and `transaction` groups several
+ * writes into one commit.
+ */
+export class SqlAdapter implements StorageAdapter {
+  private store: SqlStore;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private db: SqlDatabase) {
+    this.store = new SqlStore(db);
+  }
+
+  migrate = (): Promise<number[]> => {
+    return this.enqueue(() => migrate(this.db));
+  };
+
+  getRole = (name: string): Promise<Role | undefined> => {
+    return this.enqueue(() => this.store.getRoles([name])[0]);
+  };
+
+  getRoleGraph = (names: string[]): Promise<Role[]> => {
+    return this.enqueue(() => this.store.getRoleGraph(names));
+  };
+
+  listRoles = (): Promise<Role[]> => {
+    return this.enqueue(() => this.store.listRoles());
+  };
+
+  saveRole = (role: Role): Promise<void> => {
+    return this.enqueue(() => this.atomic(() => this.store.saveRole(role)));
+  };
+
+  deleteRole = (name: string): Promise<void> => {
+    return this.enqueue(() => this.atomic(() => this.store.deleteRole(name)));
+  };
+
+  getSubject = (id: string): Promise<Subject | undefined> => {
+    return this.enqueue(() => this.store.getSubject(id));
+  };
+
+  saveSubject = (subject: Subject): Promise<void> => {
+    return this.enqueue(() => this.atomic(() => this.store.saveSubject(subject)));
+  };
+
+  deleteSubject = (id: string): Promise<void> => {
+    return this.enqueue(() => this.atomic(() => this.store.deleteSubject(id)));
+  };
+
+  listPermissions = (): Promise<Permission[]> => {
+    return this.enqueue(() => this.store.listPermissions());
+  };
+
+  savePermission = (permission: Permission): Promise<void> => {
+    return this.enqueue(() => this.atomic(() => this.store.savePermission(permission)));
+  };
+
+  deletePermission = (name: string): Promise<void> => {
+    return this.enqueue(() => this.atomic(() => this.store.deletePermission(name)));
+  };
+
+  /**
+   * Runs `work` inside one transaction. The adapter passed to `work` writes
+   * without committing; everything is committed when `work` resolves and
+   * rolled back when it throws. Other operations on this adapter wait until
+   * the transaction ends.
+   */
+  transaction = <T>(work: (adapter: StorageAdapter) => Promise<T>): Promise<T> => {
+    const store = this.store;
+
+    const adapter: StorageAdapter = {
+      getRole: async (name) => store.getRoles([name])[0],
+      getRoleGraph: async (names) => store.getRoleGraph(names),
+      listRoles: async () => store.listRoles(),
+      saveRole: async (role) => store.saveRole(role),
+      deleteRole: async (name) => store.deleteRole(name),
+      getSubject: async (id) => store.getSubject(id),
+      saveSubject: async (subject) => store.saveSubject(subject),
+      deleteSubject: async (id) => store.deleteSubject(id),
+      listPermissions: async () => store.listPermissions(),
+      savePermission: async (permission) => store.savePermission(permission),
+      deletePermission: async (name) => store.deletePermission(name)
+    };
+
+    return this.enqueue(() => this.atomic(() => work(adapter)));
+  };
+
+  private atomic = async <T>(work: () => T | Promise<T>): Promise<T> => {
+    this.db.exec('BEGIN');
+
+    try {
+      const result = await work();
+      this.db.exec('COMMIT');
+      return result;
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      throw error;
+    }
+  };
+
+  private enqueue = <T>(work: () => T | Promise<T>): Promise<T> => {
+    const result = this.queue.then(work);
+    this.queue = result.catch(() => undefined);
+    return result;
+  };
+}
@@ -0,0 +1,20 @@
+export type SqlValue = string | number | bigint | null;
+
+/**
+ * A prepared statement. Parameters are always `SqlValue`s, but are typed as
+ * `unknown` so better-sqlite3's generic statements fit as well.
+ */
+export type SqlStatement = {
+  run(...params: unknown[]): unknown;
+  get(...params: unknown[]): unknown;
+  all(...params: unknown[]): unknown[];
+};
+
+/**
+ * The synchronous SQLite connection shape shared by `node:sqlite`'s
+ * `DatabaseSync` and `better-sqlite3`.
+ */
+export type SqlDatabase = {
+  exec(sql: string): unknown;
+  prepare(sql: string): SqlStatement;
+};
@@ -0,0 +1,3 @@
+export * from './driver';
+export * from './migrations';
+export * from './SqlAdapter';
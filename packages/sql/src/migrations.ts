@@ -0,0 +1,115 @@
+import { SqlDatabase } from './driver';
+
+export type Migration = {
+  version: number;
+  name: string;
+  up: string;
+};
+
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'create-rbac-tables',
+    up: `
+      CREATE TABLE unirbac_roles (
+        name TEXT PRIMARY KEY,
+        level REAL NOT NULL
+      );
+
+      CREATE TABLE unirbac_role_rules (
+        role TEXT NOT NULL,
+        kind TEXT NOT NULL CHECK (kind IN ('grant', 'deny')),
+        position INTEGER NOT NULL,
+        pattern TEXT NOT NULL,
+        PRIMARY KEY (role, kind, position)
+      );
+
+      CREATE TABLE unirbac_role_inherits (
+        role TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        parent TEXT NOT NULL,
+        PRIMARY KEY (role, position)
+      );
+
+      CREATE INDEX unirbac_role_inherits_parent ON unirbac_role_inherits (parent);
+
+      CREATE TABLE unirbac_permissions (
+        name TEXT PRIMARY KEY,
+        description TEXT
+      );
+
+      CREATE TABLE unirbac_subjects (
+        id TEXT PRIMARY KEY,
+        attributes TEXT
+      );
+
+      CREATE TABLE unirbac_subject_roles (
+        subject TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        role TEXT NOT NULL,
+        scope TEXT,
+        PRIMARY KEY (subject, position)
+      );
+
+      CREATE INDEX unirbac_subject_roles_role ON unirbac_subject_roles (role);
+
+      CREATE TABLE unirbac_subject_permissions (
+        subject TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        pattern TEXT NOT NULL,
+        PRIMARY KEY (subject, position)
+      );
+    `
+  },
+  {
+    version: 2,
+    name: 'add-assignment-windows',
+    up: `
+      ALTER TABLE unirbac_subject_roles ADD COLUMN valid_from TEXT;
+      ALTER TABLE unirbac_subject_roles ADD COLUMN valid_until TEXT;
+      ALTER TABLE unirbac_subject_permissions ADD COLUMN valid_from TEXT;
+      ALTER TABLE unirbac_subject_permissions ADD COLUMN valid_until TEXT;
+    `
+  }
+];
+
+/**
+ * Applies the migrations newer than the database's recorded version, each in
+ * its own transaction, and returns the versions that were applied.
+ */
+export const migrate = (db: SqlDatabase, pending: Migration[] = migrations): number[] => {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS unirbac_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+
+  const { version } = db
+    .prepare('SELECT COALESCE(MAX(version), 0) AS version FROM unirbac_migrations')
+    .get() as { version: number };
+
+  const applied: number[] = [];
+
+  for (const migration of [...pending].sort((a, b) => a.version - b.version)) {
+    if (migration.version <= version) continue;
+
+    db.exec('BEGIN');
+
+    try {
+      db.exec(migration.up);
+      db.prepare(
+        'INSERT INTO unirbac_migrations (version, name, applied_at) VALUES (?, ?, ?)'
+      ).run(migration.version, migration.name, new Date().toISOString());
+      db.exec('COMMIT');
+    } catch (error) {
+      db.exec('ROLLBACK');
+      throw error;
+    }
+
+    applied.push(migration.version);
+  }
+
+  return applied;
+};
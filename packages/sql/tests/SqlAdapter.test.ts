@@ -0,0 +1,194 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Database from 'better-sqlite3';
+import { RBACEngine, describeStorageAdapter } from '@unirbac/core';
+
+import { SqlAdapter, SqlDatabase, migrate, migrations } from '../src';
+
+// node:sqlite ships with Node 22.13+; on older runtimes use better-sqlite3 instead.
+const sqlite = await import('node:sqlite').catch(() => undefined);
+
+describe('SqlAdapter', () => {
+  const database = (path = ':memory:'): SqlDatabase & { close(): void } =>
+    sqlite ? new sqlite.DatabaseSync(path) : new Database(path);
+
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'unirbac-sql-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  const open = async (path = ':memory:') => {
+    const adapter = new SqlAdapter(database(path));
+    await adapter.migrate();
+    return adapter;
+  };
+
+  describeStorageAdapter('SqlAdapter', () => open(), { describe, it, expect });
+
+  describe('migrations', () => {
+    it('should apply pending migrations once', () => {
+      const db = database();
+
+      expect(migrate(db)).toEqual([1, 2]);
+      expect(migrate(db)).toEqual([]);
+      expect(
+        db
+          .prepare('SELECT version, name FROM unirbac_migrations')
+          .all()
+          .map((row) => ({
+            ...(row as object)
+          }))
+      ).toEqual([
+        { version: 1, name: 'create-rbac-tables' },
+        { version: 2, name: 'add-assignment-windows' }
+      ]);
+    });
+
+    it('should roll back a failing migration', () => {
+      const db = database();
+      const broken = [
+        ...migrations,
+        {
+          version: 3,
+          name: 'broken',
+          up: 'CREATE TABLE unirbac_extra (id TEXT); INSERT INTO missing VALUES (1);'
+        }
+      ];
+
+      expect(() => migrate(db, broken)).toThrow();
+      expect(migrate(db)).toEqual([]);
+      expect(
+        db.prepare("SELECT name FROM sqlite_master WHERE name = 'unirbac_extra'").get()
+      ).toBeUndefined();
+    });
+  });
+
+  it('should persist to a SQLite file', async () => {
+    const path = join(directory, 'rbac.db');
+    const first = database(path);
+    const adapter = new SqlAdapter(first);
+
+    await adapter.migrate();
+    await adapter.saveRole({ name: 'viewer', level: 10, permissions: ['post:read'] });
+    await adapter.saveSubject({
+      id: 'alice',
+      roles: [{ role: 'viewer', scope: 'org:A' }]
+    });
+    first.close();
+
+    const reopened = new SqlAdapter(database(path));
+
+    expect(await reopened.migrate()).toEqual([]);
+    expect(await reopened.getRole('viewer')).toEqual({
+      name: 'viewer',
+      level: 10,
+      permissions: ['post:read']
+    });
+    expect(await reopened.getSubject('alice')).toEqual({
+      id: 'alice',
+      roles: [{ role: 'viewer', scope: 'org:A' }]
+    });
+  });
+
+  it('should load deep inheritance chains in a constant number of queries', async () => {
+    const db = database();
+    const adapter = new SqlAdapter(db);
+    await adapter.migrate();
+
+    for (let i = 0; i < 20; i++) {
+      await adapter.saveRole({
+        name: `role-${i}`,
+        level: 100 - i,
+        permissions: [`resource:${i}`],
+        ...(i < 19 && { inherits: [`role-${i + 1}`] })
+      });
+    }
+
+    const prepare = vi.spyOn(db, 'prepare');
+    const roles = await adapter.getRoleGraph(['role-0']);
+
+    expect(roles).toHaveLength(20);
+    expect(prepare).toHaveBeenCalledTimes(4);
+  });
+
+  it('should let the engine fetch role graphs on demand', async () => {
+    const adapter = await open();
+    const getRole = vi.spyOn(adapter, 'getRole');
+
+    await adapter.saveRole({ name: 'viewer', level: 10, permissions: ['post:read'] });
+    await adapter.saveRole({
+      name: 'editor',
+      level: 50,
+      permissions: ['post:edit'],
+      inherits: ['viewer'],
+      denies: ['post:delete']
+    });
+    await adapter.saveSubject({ id: 'alice', roles: ['editor'] });
+
+    const engine = new RBACEngine({ storage: adapter, strict: true });
+    const alice = await engine.loadSubject('alice');
+
+    expect((await engine.can(alice!, 'post:read')).allowed).toBe(true);
+    expect((await engine.can(alice!, 'post:delete')).allowed).toBe(false);
+    expect(getRole).not.toHaveBeenCalled();
+  });
+
+  describe('transactions', () => {
+    it('should commit grouped writes together', async () => {
+      const adapter = await open();
+
+      await adapter.transaction(async (tx) => {
+        await tx.saveRole({ name: 'viewer', level: 10, permissions: ['post:read'] });
+        await tx.saveSubject({ id: 'alice', roles: ['viewer'] });
+        expect(await tx.getRole('viewer')).toBeDefined();
+      });
+
+      expect(await adapter.getSubject('alice')).toEqual({
+        id: 'alice',
+        roles: ['viewer']
+      });
+    });
+
+    it('should roll back every write when the work fails', async () => {
+      const adapter = await open();
+      await adapter.saveRole({ name: 'viewer', level: 10, permissions: ['post:read'] });
+
+      await expect(
+        adapter.transaction(async (tx) => {
+          await tx.deleteRole('viewer');
+          await tx.saveSubject({ id: 'alice', roles: ['viewer'] });
+          throw new Error('assignment rejected');
+        })
+      ).rejects.toThrow('assignment rejected');
+
+      expect(await adapter.getRole('viewer')).toBeDefined();
+      expect(await adapter.getSubject('alice')).toBeUndefined();
+    });
+
+    it('should hold other operations until the transaction ends', async () => {
+      const adapter = await open();
+      let release!: () => void;
+      const blocked = new Promise<void>((resolve) => (release = resolve));
+
+      const transaction = adapter.transaction(async (tx) => {
+        await tx.saveRole({ name: 'viewer', level: 10, permissions: [] });
+        await blocked;
+        throw new Error('cancelled');
+      });
+      const read = adapter.getRole('viewer');
+
+      release();
+
+      await expect(transaction).rejects.toThrow('cancelled');
+      expect(await read).toBeUndefined();
+    });
+  });
+});